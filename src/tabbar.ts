@@ -23,14 +23,33 @@ import {
 } from 'phosphor-messaging';
 
 import {
-  ISignal, Signal
+  Property
+} from 'phosphor-properties';
+
+import {
+  ISignal, Signal, Slot
 } from 'phosphor-signaling';
 
 import {
-  Title, Widget
+  ResizeMessage, Title, Widget
 } from 'phosphor-widget';
 
 
+declare module 'phosphor-widget/lib/title' {
+  interface Title {
+    /**
+     * The caption for the title.
+     *
+     * #### Notes
+     * The caption is used as the default tab tooltip.
+     *
+     * The default value is an empty string.
+     */
+    caption: string;
+  }
+}
+
+
 /**
  * The class name added to TabBar instances.
  */
@@ -56,11 +75,61 @@ const CONTENT_CLASS = 'p-TabBar-content';
  */
 const FOOTER_CLASS = 'p-TabBar-footer';
 
+/**
+ * The class name added to a tab bar previous scroll button.
+ */
+const PREV_BUTTON_CLASS = 'p-TabBar-prevButton';
+
+/**
+ * The class name added to a tab bar next scroll button.
+ */
+const NEXT_BUTTON_CLASS = 'p-TabBar-nextButton';
+
+/**
+ * The class name added to a tab bar overflow menu button.
+ */
+const MENU_BUTTON_CLASS = 'p-TabBar-menuButton';
+
+/**
+ * The class name added to a tab bar overflow menu.
+ */
+const MENU_CLASS = 'p-TabBar-overflowMenu';
+
+/**
+ * The class name added to an overflow menu item.
+ */
+const MENU_ITEM_CLASS = 'p-TabBar-overflowMenuItem';
+
+/**
+ * The class name added to an overflow menu item icon node.
+ */
+const MENU_ICON_CLASS = 'p-TabBar-overflowMenuItemIcon';
+
+/**
+ * The class name added to an overflow menu item text node.
+ */
+const MENU_TEXT_CLASS = 'p-TabBar-overflowMenuItemText';
+
 /**
  * The class name added to a tab bar tab.
  */
 const TAB_CLASS = 'p-TabBar-tab';
 
+/**
+ * The class name added to a row break node in a wrapping tab bar.
+ */
+const ROW_BREAK_CLASS = 'p-TabBar-rowBreak';
+
+/**
+ * The class name added to a tab bar announcer node.
+ */
+const ANNOUNCER_CLASS = 'p-TabBar-announcer';
+
+/**
+ * The class name added to the drag image of a tab.
+ */
+const DRAG_IMAGE_CLASS = 'p-TabBar-dragImage';
+
 /**
  * The class name added to a tab text node.
  */
@@ -76,6 +145,46 @@ const ICON_CLASS = 'p-TabBar-tabIcon';
  */
 const CLOSE_CLASS = 'p-TabBar-tabCloseIcon';
 
+/**
+ * The class name added to a horizontal tab bar.
+ */
+const HORIZONTAL_CLASS = 'p-mod-horizontal';
+
+/**
+ * The class name added to a vertical tab bar.
+ */
+const VERTICAL_CLASS = 'p-mod-vertical';
+
+/**
+ * The class name added to a tab bar in scroll overflow mode.
+ */
+const SCROLL_CLASS = 'p-mod-scroll';
+
+/**
+ * The class name added to a tab bar in wrap overflow mode.
+ */
+const WRAP_CLASS = 'p-mod-wrap';
+
+/**
+ * The class name added to a tab bar when its tabs overflow.
+ */
+const OVERFLOWING_CLASS = 'p-mod-overflowing';
+
+/**
+ * The class name added to a tab bar when some of its tabs are clipped.
+ */
+const CLIPPED_CLASS = 'p-mod-clipped';
+
+/**
+ * The class name added to a tab bar with the overflow menu enabled.
+ */
+const OVERFLOW_MENU_CLASS = 'p-mod-overflowMenu';
+
+/**
+ * The class name added to a disabled scroll button.
+ */
+const DISABLED_CLASS = 'p-mod-disabled';
+
 /**
  * The class name added to a tab bar and tab when dragging.
  */
@@ -86,6 +195,16 @@ const DRAGGING_CLASS = 'p-mod-dragging';
  */
 const CURRENT_CLASS = 'p-mod-current';
 
+/**
+ * The class name added to a selected tab.
+ */
+const SELECTED_CLASS = 'p-mod-selected';
+
+/**
+ * The class name added to a tab whose close is pending.
+ */
+const CLOSING_CLASS = 'p-mod-closing';
+
 /**
  * The class name added to a closable tab.
  */
@@ -107,6 +226,122 @@ const DETACH_THRESHOLD = 20;
 const TRANSITION_DURATION = 150;  // Keep in sync with CSS.
 
 
+/**
+ * The layout orientation of a tab bar.
+ */
+export
+enum Orientation {
+  /**
+   * Tabs are laid out in a row from left to right.
+   */
+  Horizontal,
+
+  /**
+   * Tabs are laid out in a column from top to bottom.
+   */
+  Vertical,
+}
+
+
+/**
+ * The text direction of a tab bar.
+ */
+export
+enum TextDirection {
+  /**
+   * The direction is inherited from the document.
+   */
+  Auto,
+
+  /**
+   * Horizontal tabs are laid out from left to right.
+   */
+  LeftToRight,
+
+  /**
+   * Horizontal tabs are laid out from right to left.
+   */
+  RightToLeft,
+}
+
+
+/**
+ * The overflow mode of a tab bar.
+ */
+export
+enum OverflowMode {
+  /**
+   * Tabs are shrunk to fit within the tab bar content area.
+   */
+  None,
+
+  /**
+   * Tabs keep their natural size and the content area is scrolled.
+   */
+  Scroll,
+
+  /**
+   * Tabs keep their natural size and wrap into multiple rows.
+   *
+   * #### Notes
+   * The row holding the current tab is moved to the end of the cross
+   * axis, so it is kept adjacent to the content below the tab bar.
+   */
+  Wrap,
+}
+
+
+/**
+ * The sizing policy for the tabs of a tab bar.
+ */
+export
+enum TabSizing {
+  /**
+   * Tabs are sized by their content and the tab bar stylesheet.
+   */
+  Natural,
+
+  /**
+   * Tabs share the size of the largest tab, clamped to the limits.
+   */
+  Equal,
+
+  /**
+   * Tabs use their natural size clamped to the limits, and shrink
+   * toward the minimum size when the tab bar is too small.
+   */
+  Shrink,
+}
+
+
+/**
+ * The policy for selecting a new current tab when it is removed.
+ */
+export
+enum RemovalPolicy {
+  /**
+   * Select the next tab, or the previous tab if there is no next tab.
+   */
+  Next,
+
+  /**
+   * Select the previous tab, or the next tab if there is no previous tab.
+   */
+  Previous,
+
+  /**
+   * Select the most recently used tab, or the next tab if there is no
+   * activation history.
+   */
+  MostRecent,
+
+  /**
+   * Do not select a new current tab.
+   */
+  None,
+}
+
+
 /**
  * An object which can be added to a tab bar.
  */
@@ -136,6 +371,41 @@ interface ITabIndexArgs {
 }
 
 
+/**
+ * The arguments object for a `currentAboutToChange` signal.
+ */
+export
+interface ICurrentAboutToChangeArgs {
+  /**
+   * The index of the current tab, or `-1`.
+   */
+  fromIndex: number;
+
+  /**
+   * The current tab item, or `null`.
+   */
+  fromItem: ITabItem;
+
+  /**
+   * The index of the tab which is about to become current, or `-1`.
+   */
+  toIndex: number;
+
+  /**
+   * The tab item which is about to become current, or `null`.
+   */
+  toItem: ITabItem;
+
+  /**
+   * Whether the change should be canceled.
+   *
+   * #### Notes
+   * A signal handler may set this to `true` to veto the change.
+   */
+  cancel: boolean;
+}
+
+
 /**
  * The arguments object for a `tabMoved` signal.
  */
@@ -176,7 +446,123 @@ interface ITabDetachArgs extends ITabIndexArgs {
 
 
 /**
- * A widget which displays tab items as a row of tabs.
+ * The arguments object for a `tabContextMenuRequested` signal.
+ */
+export
+interface ITabContextMenuArgs extends ITabIndexArgs {
+  /**
+   * The client X position of the mouse.
+   */
+  clientX: number;
+
+  /**
+   * The client Y position of the mouse.
+   */
+  clientY: number;
+}
+
+
+/**
+ * The arguments object for the tab drag signals.
+ */
+export
+interface ITabDragArgs extends ITabIndexArgs {
+  /**
+   * The index at which the dragged tab would be dropped.
+   *
+   * #### Notes
+   * For a group drag, this is the index of the first group tab.
+   */
+  targetIndex: number;
+}
+
+
+/**
+ * The arguments object for a `tabDropped` signal.
+ */
+export
+interface ITabDropArgs {
+  /**
+   * The connected tab bar from which the tab was dragged.
+   */
+  source: TabBar;
+
+  /**
+   * The index of the tab in the source tab bar.
+   */
+  fromIndex: number;
+
+  /**
+   * The index at which the tab was dropped in the target tab bar.
+   */
+  toIndex: number;
+
+  /**
+   * The tab item for the tab.
+   */
+  item: ITabItem;
+
+  /**
+   * Whether the drop has been handled.
+   *
+   * #### Notes
+   * A signal handler may set this to `true` to prevent the default
+   * transfer of the item, in which case it is responsible for moving
+   * the item between the tab bars.
+   */
+  handled: boolean;
+
+  /**
+   * Whether the drop should be rejected.
+   *
+   * #### Notes
+   * A signal handler may set this to `true` to reject the drop, in
+   * which case the item is left in the source tab bar.
+   */
+  cancel: boolean;
+}
+
+
+/**
+ * The message templates for the tab bar screen reader announcements.
+ *
+ * #### Notes
+ * The placeholders `{title}`, `{position}` and `{count}` are replaced
+ * by the tab title text, the one-based tab position, and the number
+ * of tabs in the tab bar.
+ */
+export
+interface ITabAnnouncements {
+  /**
+   * The message announced when a tab is moved by the user.
+   */
+  moved: string;
+
+  /**
+   * The message announced when a tab is removed.
+   */
+  removed: string;
+
+  /**
+   * The message announced when the current tab is changed.
+   */
+  selected: string;
+}
+
+
+/**
+ * A function which computes the tooltip text for a tab item.
+ *
+ * @param item - The tab item of interest.
+ *
+ * @returns The tooltip text for the tab, or `''` for no tooltip.
+ */
+export
+type TabTooltipFunc = (item: ITabItem) => string;
+
+
+/**
+ * A widget which displays tab items as a row or column of tabs.
  */
 export
 class TabBar extends Widget {
@@ -189,11 +575,25 @@ class TabBar extends Widget {
     let body = document.createElement('div');
     let footer = document.createElement('div');
     let content = document.createElement('ul');
+    let prev = document.createElement('div');
+    let next = document.createElement('div');
+    let menu = document.createElement('div');
     header.className = HEADER_CLASS;
     body.className = BODY_CLASS;
     footer.className = FOOTER_CLASS;
     content.className = CONTENT_CLASS;
+    content.setAttribute('role', 'tablist');
+    prev.className = PREV_BUTTON_CLASS;
+    next.className = NEXT_BUTTON_CLASS;
+    menu.className = MENU_BUTTON_CLASS;
+    menu.tabIndex = 0;
+    menu.setAttribute('role', 'button');
+    menu.setAttribute('aria-haspopup', 'true');
+    menu.setAttribute('aria-expanded', 'false');
+    body.appendChild(prev);
     body.appendChild(content);
+    body.appendChild(next);
+    body.appendChild(menu);
     node.appendChild(header);
     node.appendChild(body);
     node.appendChild(footer);
@@ -217,6 +617,10 @@ class TabBar extends Widget {
     icon.className = ICON_CLASS;
     text.className = TEXT_CLASS;
     close.className = CLOSE_CLASS;
+    node.setAttribute('role', 'tab');
+    icon.setAttribute('aria-hidden', 'true');
+    close.setAttribute('role', 'button');
+    close.setAttribute('aria-label', 'Close');
     node.appendChild(icon);
     node.appendChild(text);
     node.appendChild(close);
@@ -242,9 +646,11 @@ class TabBar extends Widget {
     let iconSuffix = title.icon ? ' ' + title.icon : '';
     let icon = tab.firstChild as HTMLElement;
     let text = icon.nextSibling as HTMLElement;
+    let close = text.nextSibling as HTMLElement;
     tab.className = TAB_CLASS + tabInfix + tabSuffix;
     icon.className = ICON_CLASS + iconSuffix;
     text.textContent = title.text;
+    close.setAttribute('aria-hidden', title.closable ? 'false' : 'true');
   }
 
   /**
@@ -270,6 +676,7 @@ class TabBar extends Widget {
   constructor() {
     super();
     this.addClass(TAB_BAR_CLASS);
+    this.addClass(HORIZONTAL_CLASS);
   }
 
   /**
@@ -277,10 +684,18 @@ class TabBar extends Widget {
    */
   dispose(): void {
     this._releaseMouse();
+    this._clearDropGap();
+    this._closeOverflowMenu();
+    this._endHover();
     this._tabs.length = 0;
     this._items.length = 0;
+    this._hiddenItems.length = 0;
+    this._history.length = 0;
+    this._selection.length = 0;
+    this._dragGroup.length = 0;
     this._dirtySet.clear();
     this._currentItem = null;
+    this._focusItem = null;
     super.dispose();
   }
 
@@ -292,813 +707,3949 @@ class TabBar extends Widget {
   }
 
   /**
-   * A signal emitted when a tab is moved by the user.
+   * A signal emitted when an item is inserted into the tab bar.
+   *
+   * #### Notes
+   * This is emitted for every insertion, before the inserted item is
+   * made current if the tab bar has no current item.
    */
-  get tabMoved(): ISignal<TabBar, ITabMovedArgs> {
-    return TabBarPrivate.tabMovedSignal.bind(this);
+  get itemInserted(): ISignal<TabBar, ITabIndexArgs> {
+    return TabBarPrivate.itemInsertedSignal.bind(this);
   }
 
   /**
-   * A signal emitted when the user clicks a tab's close icon.
+   * A signal emitted when an item is removed from the tab bar.
+   *
+   * #### Notes
+   * This is emitted for every removal, before a new current item is
+   * selected. The index is the index of the item before its removal.
    */
-  get tabCloseRequested(): ISignal<TabBar, ITabIndexArgs> {
-    return TabBarPrivate.tabCloseRequestedSignal.bind(this);
+  get itemRemoved(): ISignal<TabBar, ITabIndexArgs> {
+    return TabBarPrivate.itemRemovedSignal.bind(this);
   }
 
   /**
-   * A signal emitted when a tab is dragged beyond the detach threshold.
+   * A signal emitted when an item is moved within the tab bar.
+   *
+   * #### Notes
+   * This is emitted for every move, whether it is made by the user or
+   * by a call to [[insertItem]]. For a move made by the user, it is
+   * emitted after the `tabMoved` signal.
    */
-  get tabDetachRequested(): ISignal<TabBar, ITabDetachArgs> {
-    return TabBarPrivate.tabDetachRequestedSignal.bind(this);
+  get itemMoved(): ISignal<TabBar, ITabMovedArgs> {
+    return TabBarPrivate.itemMovedSignal.bind(this);
   }
 
   /**
-   * Get the currently selected tab item.
+   * A signal emitted when the current tab is about to change.
+   *
+   * #### Notes
+   * A handler may cancel the change by setting the `cancel` flag of
+   * the args. This applies to mouse presses, keyboard navigation, and
+   * programmatic changes of the current item.
+   *
+   * This signal is not emitted when the current item is removed from
+   * the tab bar, or when an item is inserted into a tab bar with no
+   * current item, since those changes cannot be canceled.
    */
-  get currentItem(): ITabItem {
-    return this._currentItem;
+  get currentAboutToChange(): ISignal<TabBar, ICurrentAboutToChangeArgs> {
+    return TabBarPrivate.currentAboutToChangeSignal.bind(this);
   }
 
   /**
-   * Set the currently selected tab item.
+   * A signal emitted when a tab is moved by the user.
    */
-  set currentItem(value: ITabItem) {
-    let item = value || null;
-    if (this._currentItem === item) {
-      return;
-    }
-    let index = item ? this._items.indexOf(item) : -1;
-    if (item && index === -1) {
-      console.warn('Tab item not contained in tab bar.');
-      return;
-    }
-    this._currentItem = item;
-    this.currentChanged.emit({ index, item });
-    this.update();
+  get tabMoved(): ISignal<TabBar, ITabMovedArgs> {
+    return TabBarPrivate.tabMovedSignal.bind(this);
   }
 
   /**
-   * Get whether the tabs are movable by the user.
+   * A signal emitted when a drag group is moved by the user.
+   *
+   * #### Notes
+   * The signal args hold the previous and current index of each item
+   * in the drag group, in tab order.
+   *
+   * The group is moved by a sequence of single tab moves, each of
+   * which emits the `tabMoved` signal before this signal is emitted.
    */
-  get tabsMovable(): boolean {
-    return this._tabsMovable;
+  get groupMoved(): ISignal<TabBar, ITabMovedArgs[]> {
+    return TabBarPrivate.groupMovedSignal.bind(this);
   }
 
   /**
-   * Set whether the tabs are movable by the user.
+   * A signal emitted when the user clicks a tab's close icon.
    */
-  set tabsMovable(value: boolean) {
-    this._tabsMovable = value;
+  get tabCloseRequested(): ISignal<TabBar, ITabIndexArgs> {
+    return TabBarPrivate.tabCloseRequestedSignal.bind(this);
   }
 
   /**
-   * Get the tab bar header node.
+   * A signal emitted when the mouse rests on a tab.
    *
    * #### Notes
-   * This node can be used to add extra content to the tab bar header.
-   *
-   * This is a read-only property.
+   * This is only emitted when [[hoverEnabled]] is `true`, after the
+   * mouse has stayed over the tab for the [[hoverDelay]]. It can be
+   * used to show a hover card with a rich preview of the item.
    */
-  get headerNode(): HTMLElement {
-    return this.node.getElementsByClassName(HEADER_CLASS)[0] as HTMLElement;
+  get tabHovered(): ISignal<TabBar, ITabIndexArgs> {
+    return TabBarPrivate.tabHoveredSignal.bind(this);
   }
 
   /**
-   * Get the tab bar body node.
+   * A signal emitted when the hover of a tab ends.
    *
    * #### Notes
-   * This node can be used to add extra content to the tab bar.
-   *
-   * This is a read-only property.
+   * This is emitted once for each `tabHovered` signal, when the mouse
+   * leaves the tab, a mouse button is pressed, or the item is removed.
+   * The index is `-1` if the item is no longer in the tab bar.
    */
-  get bodyNode(): HTMLElement {
-    return this.node.getElementsByClassName(BODY_CLASS)[0] as HTMLElement;
+  get tabHoverEnded(): ISignal<TabBar, ITabIndexArgs> {
+    return TabBarPrivate.tabHoverEndedSignal.bind(this);
   }
 
   /**
-   * Get the tab bar footer node.
+   * A signal emitted when the user double clicks a tab.
    *
    * #### Notes
-   * This node can be used to add extra content to the tab bar footer.
-   *
-   * This is a read-only property.
+   * Double clicks on a tab's close icon are ignored.
    */
-  get footerNode(): HTMLElement {
-    return this.node.getElementsByClassName(FOOTER_CLASS)[0] as HTMLElement;
+  get tabDoubleClicked(): ISignal<TabBar, ITabIndexArgs> {
+    return TabBarPrivate.tabDoubleClickedSignal.bind(this);
   }
 
   /**
-   * Get the tab bar content node.
+   * A signal emitted when the user requests a context menu for a tab.
    *
    * #### Notes
-   * This is the node which holds the tab nodes.
-   *
-   * Modifying this node directly can lead to undefined behavior.
-   *
-   * This is a read-only property.
+   * The browser context menu is suppressed for the tab.
    */
-  get contentNode(): HTMLElement {
-    return this.node.getElementsByClassName(CONTENT_CLASS)[0] as HTMLElement;
+  get tabContextMenuRequested(): ISignal<TabBar, ITabContextMenuArgs> {
+    return TabBarPrivate.tabContextMenuRequestedSignal.bind(this);
   }
 
   /**
-   * Get the number of tab items in the tab bar.
+   * A signal emitted when the user starts dragging a tab.
    *
-   * @returns The number of tab items in the tab bar.
+   * #### Notes
+   * This is emitted once the drag threshold is exceeded. Every drag
+   * which is started ends with either `dragEnded` or `dragCanceled`.
    */
-  itemCount(): number {
-    return this._items.length;
+  get dragStarted(): ISignal<TabBar, ITabIndexArgs> {
+    return TabBarPrivate.dragStartedSignal.bind(this);
   }
 
   /**
-   * Get the tab item at the specified index.
-   *
-   * @param index - The index of the tab item of interest.
+   * A signal emitted when the mouse is moved during a tab drag.
    *
-   * @returns The tab item at the specified index, or `undefined`.
+   * #### Notes
+   * The args hold the target index computed for the mouse position.
    */
-  itemAt(index: number): ITabItem {
-    return this._items[index];
+  get dragMoved(): ISignal<TabBar, ITabDragArgs> {
+    return TabBarPrivate.dragMovedSignal.bind(this);
   }
 
   /**
-   * Get the index of the specified tab item.
-   *
-   * @param item - The tab item of interest.
+   * A signal emitted when a tab drag is canceled.
    *
-   * @returns The index of the specified item, or `-1`.
+   * #### Notes
+   * A drag is canceled by the `Escape` key, by [[releaseMouse]], or
+   * by a change to the tab items during the drag.
    */
-  itemIndex(item: ITabItem): number {
-    return this._items.indexOf(item);
+  get dragCanceled(): ISignal<TabBar, ITabIndexArgs> {
+    return TabBarPrivate.dragCanceledSignal.bind(this);
   }
 
   /**
-   * Add a tab item to the end of the tab bar.
+   * A signal emitted when a tab drag is completed.
    *
-   * @param item - The tab item to add to the tab bar.
+   * #### Notes
+   * This is emitted after the dropped tab has been moved, and the
+   * args hold the original index and the final target index.
+   */
+  get dragEnded(): ISignal<TabBar, ITabDragArgs> {
+    return TabBarPrivate.dragEndedSignal.bind(this);
+  }
+
+  /**
+   * A signal emitted when a tab from a connected tab bar is dropped.
    *
    * #### Notes
-   * If the item is already added to the tab bar, it will be moved.
+   * This is emitted on the tab bar which receives the drop. Unless a
+   * handler sets the `handled` or `cancel` flag of the args, the item
+   * is removed from the source tab bar, inserted at the drop index,
+   * and made the current item.
    */
-  addItem(item: ITabItem): void {
-    this.insertItem(this.itemCount(), item);
+  get tabDropped(): ISignal<TabBar, ITabDropArgs> {
+    return TabBarPrivate.tabDroppedSignal.bind(this);
   }
 
   /**
-   * Insert a tab item at the specified index.
+   * A signal emitted when a tab is dragged beyond the detach threshold.
+   */
+  get tabDetachRequested(): ISignal<TabBar, ITabDetachArgs> {
+    return TabBarPrivate.tabDetachRequestedSignal.bind(this);
+  }
+
+  /**
+   * A signal emitted when the set of clipped tab items is changed.
    *
-   * @param index - The index at which to insert the item.
+   * #### Notes
+   * The signal args are the items whose tabs are not fully visible
+   * within the tab bar content area, in tab order.
    *
-   * @param item - The tab item to insert into the tab bar.
+   * Connecting a handler to this signal enables the measurement of
+   * the hidden items in the none overflow mode.
+   */
+  get hiddenItemsChanged(): ISignal<TabBar, ITabItem[]> {
+    let signal = TabBarPrivate.hiddenItemsChangedSignal.bind(this);
+    return new TabBarPrivate.CountedSignal(signal, delta => {
+      this._hiddenItemsHandlers += delta;
+      this.update();
+    });
+  }
+
+  /**
+   * A signal emitted when the set of selected tab items is changed.
    *
    * #### Notes
-   * If the item is already added to the tab bar, it will be moved.
+   * The signal args are the selected items, in tab order.
    */
-  insertItem(index: number, item: ITabItem): void {
-    this._releaseMouse();
-    let n = this._items.length;
-    let i = this._items.indexOf(item);
-    let j = Math.max(0, Math.min(index | 0, n));
-    if (i !== -1) {
-      if (j === n) j--;
-      if (i === j) return;
-      arrays.move(this._tabs, i, j);
-      arrays.move(this._items, i, j);
-      this.contentNode.insertBefore(this._tabs[j], this._tabs[j + 1]);
-    } else {
-      let constructor = this.constructor as typeof TabBar;
-      let tab = constructor.createTab();
-      constructor.updateTab(tab, item.title);
-      arrays.insert(this._tabs, j, tab);
-      arrays.insert(this._items, j, item);
-      this.contentNode.insertBefore(tab, this._tabs[j + 1]);
-      item.title.changed.connect(this._onTitleChanged, this);
-      if (!this.currentItem) this.currentItem = item;
-    }
-    this.update();
+  get selectionChanged(): ISignal<TabBar, ITabItem[]> {
+    return TabBarPrivate.selectionChangedSignal.bind(this);
   }
 
   /**
-   * Remove a tab item from the tab bar.
-   *
-   * @param item - The tab item to remove from the tab bar.
+   * Get the currently selected tab item.
+   */
+  get currentItem(): ITabItem {
+    return this._currentItem;
+  }
+
+  /**
+   * Set the currently selected tab item.
    *
    * #### Notes
-   * If the item is not in the tab bar, this is a no-op.
+   * The change is a no-op if it is canceled by a handler of the
+   * `currentAboutToChange` signal.
    */
-  removeItem(item: ITabItem): void {
-    this._releaseMouse();
-    let i = arrays.remove(this._items, item);
-    if (i === -1) {
+  set currentItem(value: ITabItem) {
+    let item = value || null;
+    if (this._currentItem === item) {
       return;
     }
-    this._dirtySet.delete(item.title);
-    item.title.changed.disconnect(this._onTitleChanged, this);
-    this.contentNode.removeChild(arrays.removeAt(this._tabs, i));
-    if (this.currentItem === item) {
-      let next = this._items[i];
-      let prev = this._items[i - 1];
-      this.currentItem = next || prev;
+    let index = item ? this._items.indexOf(item) : -1;
+    if (item && index === -1) {
+      console.warn('Tab item not contained in tab bar.');
+      return;
     }
-    this.update();
+    let fromItem = this._currentItem;
+    let fromIndex = this._items.indexOf(fromItem);
+    let args = { fromIndex, fromItem, toIndex: index, toItem: item, cancel: false };
+    this.currentAboutToChange.emit(args);
+    if (!args.cancel) this._setCurrentItem(item);
   }
 
   /**
-   * Get the tab node for the item at the given index.
+   * Get whether a tab drag is in progress.
    *
-   * @param index - The index of the tab item of interest.
+   * #### Notes
+   * This is `true` from the `dragStarted` signal until the mouse is
+   * released or the drag is canceled. It is `false` while a dropped
+   * tab transitions to its final position before `dragEnded`.
    *
-   * @returns The tab node for the item, or `undefined`.
+   * This is a read-only property.
    */
-  tabAt(index: number): HTMLElement {
-    return this._tabs[index];
+  get isDragging(): boolean {
+    let data = this._dragData;
+    return !!data && data.dragActive && !data.dragReleased;
   }
 
   /**
-   * Release the mouse and restore the non-dragged tab positions.
+   * Get whether the tabs are movable by the user.
+   */
+  get tabsMovable(): boolean {
+    return this._tabsMovable;
+  }
+
+  /**
+   * Set whether the tabs are movable by the user.
+   */
+  set tabsMovable(value: boolean) {
+    this._tabsMovable = value;
+  }
+
+  /**
+   * Get the orientation of the tab bar.
    *
    * #### Notes
-   * This will cause the tab bar to stop handling mouse events and to
-   * restore the tabs to their non-dragged positions.
+   * The default value is `Orientation.Horizontal`.
    */
-  releaseMouse(): void {
-    this._releaseMouse();
+  get orientation(): Orientation {
+    return this._orientation;
   }
 
   /**
-   * Handle the DOM events for the tab bar.
-   *
-   * @param event - The DOM event sent to the tab bar.
+   * Set the orientation of the tab bar.
    *
    * #### Notes
-   * This method implements the DOM `EventListener` interface and is
-   * called in response to events on the tab bar's DOM node. It should
-   * not be called directly by user code.
+   * Changing the orientation will abort any drag in progress.
    */
-  handleEvent(event: Event): void {
-    switch (event.type) {
-    case 'click':
-      this._evtClick(event as MouseEvent);
-      break;
-    case 'mousedown':
-      this._evtMouseDown(event as MouseEvent);
-      break;
-    case 'mousemove':
-      this._evtMouseMove(event as MouseEvent);
-      break;
-    case 'mouseup':
-      this._evtMouseUp(event as MouseEvent);
-      break;
-    case 'keydown':
-      this._evtKeyDown(event as KeyboardEvent);
-      break;
-    case 'contextmenu':
-      event.preventDefault();
-      event.stopPropagation();
-      break;
+  set orientation(value: Orientation) {
+    if (this._orientation === value) {
+      return;
     }
+    this._releaseMouse();
+    TabBarPrivate.setScrollPos(this.contentNode, this._orientation, this._isReversed(), 0);
+    this._orientation = value;
+    this.toggleClass(HORIZONTAL_CLASS, value === Orientation.Horizontal);
+    this.toggleClass(VERTICAL_CLASS, value === Orientation.Vertical);
+    let ariaOrientation = value === Orientation.Vertical ? 'vertical' : 'horizontal';
+    this.contentNode.setAttribute('aria-orientation', ariaOrientation);
+    this._scrollToCurrent = true;
+    this._sizesDirty = true;
+    this.update();
   }
 
   /**
-   * A message handler invoked on an `'after-attach'` message.
+   * Get whether multiple tabs can be selected by the user.
+   *
+   * #### Notes
+   * When enabled, `Ctrl+Click` toggles the selection of a tab and
+   * `Shift+Click` selects the range of tabs from the last clicked tab.
+   * A plain click clears the selection. The selection is independent
+   * of the current item, which remains the active tab.
+   *
+   * Disabling multi-selection clears the selection.
+   *
+   * The default value is `false`.
    */
-  protected onAfterAttach(msg: Message): void {
-    this.node.addEventListener('click', this);
-    this.node.addEventListener('mousedown', this);
+  get multiSelectEnabled(): boolean {
+    return this._multiSelectEnabled;
   }
 
   /**
-   * A message handler invoked on a `'before-detach'` message.
+   * Set whether multiple tabs can be selected by the user.
    */
-  protected onBeforeDetach(msg: Message): void {
-    this.node.removeEventListener('click', this);
-    this.node.removeEventListener('mousedown', this);
-    this._releaseMouse();
+  set multiSelectEnabled(value: boolean) {
+    this._multiSelectEnabled = value;
+    this._selectionAnchor = null;
+    if (!value) this._setSelection([]);
   }
 
   /**
-   * A message handler invoked on an `'update-request'` message.
+   * Get the selected tab items.
+   *
+   * #### Notes
+   * The items are returned in tab order.
    */
-  protected onUpdateRequest(msg: Message): void {
-    let tabs = this._tabs;
-    let items = this._items;
-    let dirty = this._dirtySet;
-    let current = this._currentItem;
-    let constructor = this.constructor as typeof TabBar;
-    for (let i = 0, n = tabs.length; i < n; ++i) {
-      let tab = tabs[i];
-      let item = items[i];
-      if (dirty.has(item.title)) {
-        constructor.updateTab(tab, item.title);
-      }
-      if (item === current) {
-        tab.classList.add(CURRENT_CLASS);
-        tab.style.zIndex = `${n}`;
-      } else {
-        tab.classList.remove(CURRENT_CLASS);
-        tab.style.zIndex = `${n - i - 1}`;
-      }
-    }
-    dirty.clear();
+  get selectedItems(): ITabItem[] {
+    let selection = this._selection;
+    return this._items.filter(item => selection.indexOf(item) !== -1);
   }
 
   /**
-   * Handle the `'keydown'` event for the tab bar.
+   * Set the selected tab items.
+   *
+   * #### Notes
+   * Items which are not contained in the tab bar are ignored.
+   *
+   * This has no effect unless multi-selection is enabled.
    */
-  private _evtKeyDown(event: KeyboardEvent): void {
-    // Stop all input events during drag.
-    event.preventDefault();
-    event.stopPropagation();
-
-    // Release the mouse if `Escape` is pressed.
-    if (event.keyCode === 27) this._releaseMouse();
+  set selectedItems(value: ITabItem[]) {
+    if (!this._multiSelectEnabled) {
+      return;
+    }
+    this._setSelection(this._items.filter(item => value.indexOf(item) !== -1));
   }
 
   /**
-   * Handle the `'click'` event for the tab bar.
+   * Get the items which are dragged together as a group.
+   *
+   * #### Notes
+   * When the user drags a tab whose item is in the drag group, every
+   * tab in the group is dragged as one block and dropped contiguously
+   * in tab order. The result is reported by the `groupMoved` signal.
+   *
+   * A drag group has no effect in wrap overflow mode, where only the
+   * pressed tab is dragged.
+   *
+   * The items are returned in tab order.
    */
-  private _evtClick(event: MouseEvent): void {
-    // Do nothing if it's not a left click.
-    if (event.button !== 0) {
+  get dragGroup(): ITabItem[] {
+    let group = this._dragGroup;
+    return this._items.filter(item => group.indexOf(item) !== -1);
+  }
+
+  /**
+   * Set the items which are dragged together as a group.
+   *
+   * #### Notes
+   * Items which are not contained in the tab bar are ignored.
+   */
+  set dragGroup(value: ITabItem[]) {
+    this._releaseMouse();
+    this._dragGroup = this._items.filter(item => value.indexOf(item) !== -1);
+  }
+
+  /**
+   * Get the policy for selecting a new current tab on removal.
+   *
+   * #### Notes
+   * The default value is `RemovalPolicy.Next`.
+   */
+  get removalPolicy(): RemovalPolicy {
+    return this._removalPolicy;
+  }
+
+  /**
+   * Set the policy for selecting a new current tab on removal.
+   */
+  set removalPolicy(value: RemovalPolicy) {
+    this._removalPolicy = value;
+  }
+
+  /**
+   * Get the activation history of the tab items.
+   *
+   * #### Notes
+   * The items are ordered from most to least recently current, and
+   * only include the items which have been current.
+   *
+   * This is a read-only property.
+   */
+  get activationHistory(): ITabItem[] {
+    return this._history.slice();
+  }
+
+  /**
+   * Get whether the tab hover signals are enabled.
+   *
+   * #### Notes
+   * The default value is `false`.
+   */
+  get hoverEnabled(): boolean {
+    return this._hoverEnabled;
+  }
+
+  /**
+   * Set whether the tab hover signals are enabled.
+   */
+  set hoverEnabled(value: boolean) {
+    this._hoverEnabled = value;
+    if (!value) this._endHover();
+  }
+
+  /**
+   * Get the delay in milliseconds before a tab is considered hovered.
+   *
+   * #### Notes
+   * The default value is `500`.
+   */
+  get hoverDelay(): number {
+    return this._hoverDelay;
+  }
+
+  /**
+   * Set the delay in milliseconds before a tab is considered hovered.
+   */
+  set hoverDelay(value: number) {
+    this._hoverDelay = Math.max(0, value);
+  }
+
+  /**
+   * Get the function which computes the tab tooltips.
+   *
+   * #### Notes
+   * The tooltip of a tab is computed when the tab is created, and is
+   * recomputed when the title of its item is changed.
+   *
+   * The default value is `null`, which shows the title caption as the
+   * tooltip of each tab.
+   */
+  get tooltipFunc(): TabTooltipFunc {
+    return this._tooltipFunc;
+  }
+
+  /**
+   * Set the function which computes the tab tooltips.
+   */
+  set tooltipFunc(value: TabTooltipFunc) {
+    this._tooltipFunc = value || null;
+    for (let i = 0, n = this._items.length; i < n; ++i) {
+      this._tabs[i].removeAttribute('title');
+      this._dirtySet.add(this._items[i].title);
+    }
+    this.update();
+  }
+
+  /**
+   * Get the name of the group of connected tab bars.
+   *
+   * #### Notes
+   * Tab bars with the same non-empty group name accept the tabs which
+   * are dragged from each other. While a tab is dragged over another
+   * tab bar in the group, that tab bar shows the insertion gap, and
+   * dropping the tab emits its `tabDropped` signal.
+   *
+   * Drag groups of multiple tabs are not transferred between tab bars.
+   *
+   * The default value is `''`, which does not connect the tab bar.
+   */
+  get connectionGroup(): string {
+    return this._connectionGroup;
+  }
+
+  /**
+   * Set the name of the group of connected tab bars.
+   */
+  set connectionGroup(value: string) {
+    this._releaseMouse();
+    this._clearDropGap();
+    this._connectionGroup = value || '';
+  }
+
+  /**
+   * Get whether a middle click on a tab requests to close it.
+   *
+   * #### Notes
+   * When enabled, a middle click on a closable tab emits the
+   * `tabCloseRequested` signal.
+   *
+   * The default value is `true`.
+   */
+  get middleClickClose(): boolean {
+    return this._middleClickClose;
+  }
+
+  /**
+   * Set whether a middle click on a tab requests to close it.
+   */
+  set middleClickClose(value: boolean) {
+    this._middleClickClose = value;
+  }
+
+  /**
+   * Get whether keyboard focus changes also change the current tab.
+   *
+   * #### Notes
+   * When this is `false`, the focused tab is activated by pressing
+   * `Enter` or `Space`.
+   *
+   * The default value is `false`.
+   */
+  get activateOnFocus(): boolean {
+    return this._activateOnFocus;
+  }
+
+  /**
+   * Set whether keyboard focus changes also change the current tab.
+   */
+  set activateOnFocus(value: boolean) {
+    this._activateOnFocus = value;
+  }
+
+  /**
+   * Get whether tab changes are announced to screen readers.
+   *
+   * #### Notes
+   * The announcements are made through a polite ARIA live region.
+   *
+   * The default value is `false`.
+   */
+  get announceChanges(): boolean {
+    return this._announcer !== null;
+  }
+
+  /**
+   * Set whether tab changes are announced to screen readers.
+   */
+  set announceChanges(value: boolean) {
+    if (this.announceChanges === value) {
+      return;
+    }
+    if (value) {
+      this._announcer = TabBarPrivate.createAnnouncerNode();
+      this.node.appendChild(this._announcer);
+    } else {
+      this.node.removeChild(this._announcer);
+      this._announcer = null;
+    }
+  }
+
+  /**
+   * Get the message templates for the screen reader announcements.
+   *
+   * #### Notes
+   * This returns a copy of the current templates.
+   */
+  get announcements(): ITabAnnouncements {
+    return TabBarPrivate.copyAnnouncements(this._announcements);
+  }
+
+  /**
+   * Set the message templates for the screen reader announcements.
+   *
+   * #### Notes
+   * This can be used to provide localized messages.
+   */
+  set announcements(value: ITabAnnouncements) {
+    this._announcements = TabBarPrivate.copyAnnouncements(value);
+  }
+
+  /**
+   * Get the text direction of the tab bar.
+   *
+   * #### Notes
+   * The default value is `TextDirection.Auto`, which means the tab
+   * bar follows the computed `direction` style of its node.
+   */
+  get textDirection(): TextDirection {
+    return this._textDirection;
+  }
+
+  /**
+   * Set the text direction of the tab bar.
+   *
+   * #### Notes
+   * An explicit direction is applied to the `dir` attribute of the
+   * tab bar node. Changing the direction will abort any drag.
+   */
+  set textDirection(value: TextDirection) {
+    if (this._textDirection === value) {
+      return;
+    }
+    this._releaseMouse();
+    this._textDirection = value;
+    switch (value) {
+    case TextDirection.LeftToRight:
+      this.node.dir = 'ltr';
+      break;
+    case TextDirection.RightToLeft:
+      this.node.dir = 'rtl';
+      break;
+    default:
+      this.node.removeAttribute('dir');
+      break;
+    }
+    this._scrollToCurrent = true;
+    this.update();
+  }
+
+  /**
+   * Get the overflow mode of the tab bar.
+   *
+   * #### Notes
+   * The default value is `OverflowMode.None`.
+   */
+  get overflowMode(): OverflowMode {
+    return this._overflowMode;
+  }
+
+  /**
+   * Set the overflow mode of the tab bar.
+   *
+   * #### Notes
+   * In scroll mode, the previous and next scroll buttons are shown
+   * only when the tabs overflow the tab bar content area.
+   *
+   * In wrap mode, the tabs flow into as many rows as needed.
+   */
+  set overflowMode(value: OverflowMode) {
+    if (this._overflowMode === value) {
+      return;
+    }
+    this._releaseMouse();
+    this._overflowMode = value;
+    this._closeOverflowMenu();
+    this.toggleClass(SCROLL_CLASS, value === OverflowMode.Scroll);
+    this.toggleClass(WRAP_CLASS, value === OverflowMode.Wrap);
+    if (value !== OverflowMode.Scroll) {
+      this.removeClass(OVERFLOWING_CLASS);
+      TabBarPrivate.setScrollPos(this.contentNode, this._orientation, this._isReversed(), 0);
+    }
+    this._scrollToCurrent = true;
+    this.update();
+  }
+
+  /**
+   * Get whether the built-in overflow menu is enabled.
+   *
+   * #### Notes
+   * The default value is `false`.
+   */
+  get overflowMenuEnabled(): boolean {
+    return this._overflowMenuEnabled;
+  }
+
+  /**
+   * Set whether the built-in overflow menu is enabled.
+   *
+   * #### Notes
+   * The overflow menu button is shown whenever the tab bar has hidden
+   * items, in both the scroll and the none overflow modes.
+   */
+  set overflowMenuEnabled(value: boolean) {
+    this._overflowMenuEnabled = value;
+    this.toggleClass(OVERFLOW_MENU_CLASS, value);
+    if (!value) this._closeOverflowMenu();
+    this.update();
+  }
+
+  /**
+   * Get the items whose tabs are clipped by the tab bar content area.
+   *
+   * #### Notes
+   * This is updated when the tab bar processes an update request.
+   *
+   * This is always empty in wrap overflow mode. In none overflow mode,
+   * this is empty unless the overflow menu is enabled or a handler is
+   * connected to the [[hiddenItemsChanged]] signal.
+   *
+   * This is a read-only property.
+   */
+  get hiddenItems(): ITabItem[] {
+    return this._hiddenItems.slice();
+  }
+
+  /**
+   * Get the sizing policy for the tabs.
+   *
+   * #### Notes
+   * The default value is `TabSizing.Natural`.
+   */
+  get tabSizing(): TabSizing {
+    return this._tabSizing;
+  }
+
+  /**
+   * Set the sizing policy for the tabs.
+   */
+  set tabSizing(value: TabSizing) {
+    if (this._tabSizing === value) {
+      return;
+    }
+    this._tabSizing = value;
+    this._sizesDirty = true;
+    this.update();
+  }
+
+  /**
+   * Get the minimum tab size for the sizing policy.
+   *
+   * #### Notes
+   * The size is measured along the layout axis of the tab bar, which
+   * is the tab width for a horizontal tab bar.
+   *
+   * This is ignored by the `TabSizing.Natural` policy.
+   *
+   * The default value is `0`.
+   */
+  get minTabSize(): number {
+    return this._minTabSize;
+  }
+
+  /**
+   * Set the minimum tab size for the sizing policy.
+   */
+  set minTabSize(value: number) {
+    value = Math.max(0, value);
+    if (this._minTabSize === value) {
+      return;
+    }
+    this._minTabSize = value;
+    this._sizesDirty = true;
+    this.update();
+  }
+
+  /**
+   * Get the maximum tab size for the sizing policy.
+   *
+   * #### Notes
+   * The size is measured along the layout axis of the tab bar, which
+   * is the tab width for a horizontal tab bar.
+   *
+   * This is ignored by the `TabSizing.Natural` policy.
+   *
+   * The default value is `Infinity`.
+   */
+  get maxTabSize(): number {
+    return this._maxTabSize;
+  }
+
+  /**
+   * Set the maximum tab size for the sizing policy.
+   */
+  set maxTabSize(value: number) {
+    value = Math.max(0, value);
+    if (this._maxTabSize === value) {
       return;
     }
+    this._maxTabSize = value;
+    this._sizesDirty = true;
+    this.update();
+  }
+
+  /**
+   * Get the tab bar header node.
+   *
+   * #### Notes
+   * This node can be used to add extra content to the tab bar header.
+   *
+   * This is a read-only property.
+   */
+  get headerNode(): HTMLElement {
+    return this.node.getElementsByClassName(HEADER_CLASS)[0] as HTMLElement;
+  }
+
+  /**
+   * Get the tab bar body node.
+   *
+   * #### Notes
+   * This node can be used to add extra content to the tab bar.
+   *
+   * This is a read-only property.
+   */
+  get bodyNode(): HTMLElement {
+    return this.node.getElementsByClassName(BODY_CLASS)[0] as HTMLElement;
+  }
+
+  /**
+   * Get the tab bar footer node.
+   *
+   * #### Notes
+   * This node can be used to add extra content to the tab bar footer.
+   *
+   * This is a read-only property.
+   */
+  get footerNode(): HTMLElement {
+    return this.node.getElementsByClassName(FOOTER_CLASS)[0] as HTMLElement;
+  }
+
+  /**
+   * Get the tab bar content node.
+   *
+   * #### Notes
+   * This is the node which holds the tab nodes.
+   *
+   * Modifying this node directly can lead to undefined behavior.
+   *
+   * This is a read-only property.
+   */
+  get contentNode(): HTMLElement {
+    return this.node.getElementsByClassName(CONTENT_CLASS)[0] as HTMLElement;
+  }
+
+  /**
+   * Get the number of tab items in the tab bar.
+   *
+   * @returns The number of tab items in the tab bar.
+   */
+  itemCount(): number {
+    return this._items.length;
+  }
+
+  /**
+   * Get the tab item at the specified index.
+   *
+   * @param index - The index of the tab item of interest.
+   *
+   * @returns The tab item at the specified index, or `undefined`.
+   */
+  itemAt(index: number): ITabItem {
+    return this._items[index];
+  }
+
+  /**
+   * Get the index of the specified tab item.
+   *
+   * @param item - The tab item of interest.
+   *
+   * @returns The index of the specified item, or `-1`.
+   */
+  itemIndex(item: ITabItem): number {
+    return this._items.indexOf(item);
+  }
+
+  /**
+   * Add a tab item to the end of the tab bar.
+   *
+   * @param item - The tab item to add to the tab bar.
+   *
+   * #### Notes
+   * If the item is already added to the tab bar, it will be moved.
+   */
+  addItem(item: ITabItem): void {
+    this.insertItem(this.itemCount(), item);
+  }
+
+  /**
+   * Insert a tab item at the specified index.
+   *
+   * @param index - The index at which to insert the item.
+   *
+   * @param item - The tab item to insert into the tab bar.
+   *
+   * #### Notes
+   * If the item is already added to the tab bar, it will be moved.
+   */
+  insertItem(index: number, item: ITabItem): void {
+    this._releaseMouse();
+    this._clearDropGap();
+    let n = this._items.length;
+    let i = this._items.indexOf(item);
+    let j = Math.max(0, Math.min(index | 0, n));
+    if (i !== -1) {
+      if (j === n) j--;
+      if (i === j) return;
+      arrays.move(this._tabs, i, j);
+      arrays.move(this._items, i, j);
+      this.contentNode.insertBefore(this._tabs[j], this._tabs[j + 1]);
+      this.itemMoved.emit({ fromIndex: i, toIndex: j, item });
+    } else {
+      let constructor = this.constructor as typeof TabBar;
+      let tab = constructor.createTab();
+      this._updateTab(tab, item);
+      if (!tab.id) tab.id = TabBarPrivate.createTabId();
+      arrays.insert(this._tabs, j, tab);
+      arrays.insert(this._items, j, item);
+      this.contentNode.insertBefore(tab, this._tabs[j + 1]);
+      item.title.changed.connect(this._onTitleChanged, this);
+      this._sizesDirty = true;
+      this.itemInserted.emit({ index: j, item });
+      if (!this._currentItem) this._setCurrentItem(item);
+    }
+    this.update();
+  }
+
+  /**
+   * Remove a tab item from the tab bar.
+   *
+   * @param item - The tab item to remove from the tab bar.
+   *
+   * #### Notes
+   * If the item is not in the tab bar, this is a no-op.
+   *
+   * If the removed item is current, the new current item is selected
+   * according to the [[removalPolicy]].
+   *
+   * If the removed tab has the keyboard focus, the focus is moved to
+   * the tab which becomes current.
+   */
+  removeItem(item: ITabItem): void {
+    this._releaseMouse();
+    this._clearDropGap();
+    if (this._hoverItem === item) this._endHover();
+    let i = arrays.remove(this._items, item);
+    if (i === -1) {
+      return;
+    }
+    this._dirtySet.delete(item.title);
+    this._closingItems.delete(item);
+    item.title.changed.disconnect(this._onTitleChanged, this);
+    let tab = arrays.removeAt(this._tabs, i);
+    let hadFocus = tab.contains(document.activeElement);
+    this.contentNode.removeChild(tab);
+    this._sizesDirty = true;
+    if (this._focusItem === item) {
+      this._focusItem = null;
+    }
+    arrays.remove(this._history, item);
+    if (this._selectionAnchor === item) {
+      this._selectionAnchor = null;
+    }
+    arrays.remove(this._dragGroup, item);
+    this._announce(this._announcements.removed, item, i);
+    this.itemRemoved.emit({ index: i, item });
+    if (arrays.remove(this._selection, item) !== -1) {
+      this.selectionChanged.emit(this.selectedItems);
+    }
+    if (this.currentItem === item) {
+      this._setCurrentItem(this._nextCurrentItem(i));
+    }
+    if (hadFocus) {
+      let j = this._items.indexOf(this._currentItem);
+      if (j !== -1) this._focusTab(j);
+    }
+    this.update();
+  }
+
+  /**
+   * Get the tab node for the item at the given index.
+   *
+   * @param index - The index of the tab item of interest.
+   *
+   * @returns The tab node for the item, or `undefined`.
+   */
+  tabAt(index: number): HTMLElement {
+    return this._tabs[index];
+  }
+
+  /**
+   * Set whether the tab of an item is marked as closing.
+   *
+   * @param item - The tab item of interest.
+   *
+   * @param closing - Whether a close of the item is pending.
+   *
+   * #### Notes
+   * A closing tab has the `p-mod-closing` class and the `aria-busy`
+   * attribute, which are kept when the tab is updated for a change
+   * to its title. The mark is cleared when the item is removed.
+   *
+   * If the item is not in the tab bar, this is a no-op.
+   */
+  setTabClosing(item: ITabItem, closing: boolean): void {
+    if (this._items.indexOf(item) === -1) {
+      return;
+    }
+    if (closing) {
+      this._closingItems.add(item);
+    } else {
+      this._closingItems.delete(item);
+    }
+    this.update();
+  }
+
+  /**
+   * Release the mouse and restore the non-dragged tab positions.
+   *
+   * #### Notes
+   * This will cause the tab bar to stop handling mouse events and to
+   * restore the tabs to their non-dragged positions.
+   */
+  releaseMouse(): void {
+    this._releaseMouse();
+  }
+
+  /**
+   * Handle the DOM events for the tab bar.
+   *
+   * @param event - The DOM event sent to the tab bar.
+   *
+   * #### Notes
+   * This method implements the DOM `EventListener` interface and is
+   * called in response to events on the tab bar's DOM node. It should
+   * not be called directly by user code.
+   */
+  handleEvent(event: Event): void {
+    switch (event.type) {
+    case 'click':
+      this._evtClick(event as MouseEvent);
+      break;
+    case 'auxclick':
+      this._evtAuxClick(event as MouseEvent);
+      break;
+    case 'dblclick':
+      this._evtDblClick(event as MouseEvent);
+      break;
+    case 'mousedown':
+      this._evtMouseDown(event as MouseEvent);
+      break;
+    case 'mousemove':
+      this._evtMouseMove(event as MouseEvent);
+      break;
+    case 'mouseup':
+      this._evtMouseUp(event as MouseEvent);
+      break;
+    case 'keydown':
+      this._evtKeyDown(event as KeyboardEvent);
+      break;
+    case 'contextmenu':
+      this._evtContextMenu(event as MouseEvent);
+      break;
+    case 'mouseover':
+      this._evtMouseOver(event as MouseEvent);
+      break;
+    case 'mouseleave':
+      this._endHover();
+      break;
+    }
+  }
+
+  /**
+   * A message handler invoked on an `'after-attach'` message.
+   */
+  protected onAfterAttach(msg: Message): void {
+    this.node.addEventListener('click', this);
+    this.node.addEventListener('auxclick', this);
+    this.node.addEventListener('dblclick', this);
+    this.node.addEventListener('contextmenu', this);
+    this.node.addEventListener('mouseover', this);
+    this.node.addEventListener('mouseleave', this);
+    this.node.addEventListener('mousedown', this);
+    this.node.addEventListener('keydown', this);
+    TabBarPrivate.attachedBars.push(this);
+  }
+
+  /**
+   * A message handler invoked on a `'before-detach'` message.
+   */
+  protected onBeforeDetach(msg: Message): void {
+    this.node.removeEventListener('click', this);
+    this.node.removeEventListener('auxclick', this);
+    this.node.removeEventListener('dblclick', this);
+    this.node.removeEventListener('contextmenu', this);
+    this.node.removeEventListener('mouseover', this);
+    this.node.removeEventListener('mouseleave', this);
+    this.node.removeEventListener('mousedown', this);
+    this.node.removeEventListener('keydown', this);
+    arrays.remove(TabBarPrivate.attachedBars, this);
+    this._releaseMouse();
+    this._clearDropGap();
+    this._closeOverflowMenu();
+    this._endHover();
+  }
+
+  /**
+   * A message handler invoked on a `'resize'` message.
+   */
+  protected onResize(msg: ResizeMessage): void {
+    this._sizesDirty = true;
+    this.update();
+  }
+
+  /**
+   * A message handler invoked on an `'update-request'` message.
+   */
+  protected onUpdateRequest(msg: Message): void {
+    let tabs = this._tabs;
+    let items = this._items;
+    let dirty = this._dirtySet;
+    let current = this._currentItem;
+    let roving = Math.max(0, items.indexOf(this._focusItem || current));
+    for (let i = 0, n = tabs.length; i < n; ++i) {
+      let tab = tabs[i];
+      let item = items[i];
+      if (dirty.has(item.title)) {
+        this._updateTab(tab, item);
+      }
+      tab.tabIndex = i === roving ? 0 : -1;
+      tab.setAttribute('aria-selected', item === current ? 'true' : 'false');
+      if (this._selection.indexOf(item) !== -1) {
+        tab.classList.add(SELECTED_CLASS);
+      } else {
+        tab.classList.remove(SELECTED_CLASS);
+      }
+      if (this._closingItems.has(item)) {
+        tab.classList.add(CLOSING_CLASS);
+        tab.setAttribute('aria-busy', 'true');
+      } else {
+        tab.classList.remove(CLOSING_CLASS);
+        tab.removeAttribute('aria-busy');
+      }
+      if (item === current) {
+        tab.classList.add(CURRENT_CLASS);
+        tab.style.zIndex = `${n}`;
+      } else {
+        tab.classList.remove(CURRENT_CLASS);
+        tab.style.zIndex = `${n - i - 1}`;
+      }
+    }
+    dirty.clear();
+    this._updateTabSizes();
+    this._updateWrapState();
+    this._updateScrollState();
+  }
+
+  /**
+   * Handle the `'keydown'` event for the tab bar.
+   */
+  private _evtKeyDown(event: KeyboardEvent): void {
+    // Handle the keyboard interaction if no drag is in progress.
+    if (!this._dragData) {
+      let target = event.target as HTMLElement;
+      if (this._isOnButton(MENU_BUTTON_CLASS, target)) {
+        this._evtMenuButtonKeyDown(event);
+      } else {
+        this._evtTabKeyDown(event);
+      }
+      return;
+    }
+
+    // Stop all input events during drag.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Release the mouse if `Escape` is pressed.
+    if (event.keyCode === 27) this._releaseMouse();
+  }
+
+  /**
+   * Handle the `'keydown'` event for the overflow menu button.
+   */
+  private _evtMenuButtonKeyDown(event: KeyboardEvent): void {
+    // Open the menu if `Enter`, `Space` or `ArrowDown` is pressed.
+    let key = event.keyCode;
+    if (key !== 13 && key !== 32 && key !== 40) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    this._openOverflowMenu();
+  }
+
+  /**
+   * Handle the `'keydown'` event for a focused tab.
+   */
+  private _evtTabKeyDown(event: KeyboardEvent): void {
+    // Do nothing if the key press is not on a tab.
+    let target = event.target as HTMLElement;
+    let i = arrays.findIndex(this._tabs, tab => tab.contains(target));
+    if (i < 0) {
+      return;
+    }
+
+    // Move the tab if `Ctrl+Shift` is held.
+    if (event.ctrlKey && event.shiftKey && !event.altKey && !event.metaKey) {
+      this._evtReorderKeyDown(event, i);
+      return;
+    }
+
+    // Request a tab close if a close shortcut is pressed.
+    if (TabBarPrivate.isCloseKey(event)) {
+      let item = this._items[i];
+      if (!item.title.closable) {
+        return;
+      }
+      event.preventDefault();
+      event.stopPropagation();
+      this.tabCloseRequested.emit({ index: i, item });
+      return;
+    }
+
+    // Do nothing if a modifier key is held.
+    if (event.ctrlKey || event.shiftKey || event.altKey || event.metaKey) {
+      return;
+    }
+
+    // Compute the index of the tab to focus.
+    let j: number;
+    let n = this._tabs.length;
+    switch (TabBarPrivate.navigationKey(event, this._orientation, this._isReversed())) {
+    case TabBarPrivate.NavigationKey.Previous:
+      j = i === 0 ? n - 1 : i - 1;
+      break;
+    case TabBarPrivate.NavigationKey.Next:
+      j = i === n - 1 ? 0 : i + 1;
+      break;
+    case TabBarPrivate.NavigationKey.First:
+      j = 0;
+      break;
+    case TabBarPrivate.NavigationKey.Last:
+      j = n - 1;
+      break;
+    case TabBarPrivate.NavigationKey.Activate:
+      event.preventDefault();
+      event.stopPropagation();
+      this.currentItem = this._items[i];
+      return;
+    default:
+      return;
+    }
+
+    // Handling a navigation key stops the event propagation.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Move the focus and activate the tab if needed.
+    this._focusTab(j);
+    if (this._activateOnFocus) this.currentItem = this._items[j];
+  }
+
+  /**
+   * Handle a reorder shortcut `'keydown'` event for a focused tab.
+   */
+  private _evtReorderKeyDown(event: KeyboardEvent, index: number): void {
+    // Do nothing if the tabs are not movable.
+    if (!this._tabsMovable) {
+      return;
+    }
+
+    // Compute the new index for the tab.
+    let j: number;
+    switch (TabBarPrivate.navigationKey(event, this._orientation, this._isReversed())) {
+    case TabBarPrivate.NavigationKey.Previous:
+      j = index - 1;
+      break;
+    case TabBarPrivate.NavigationKey.Next:
+      j = index + 1;
+      break;
+    default:
+      return;
+    }
+
+    // Handling a reorder key stops the event propagation.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Bail if the tab is already at the end of the tab bar.
+    if (j < 0 || j >= this._tabs.length) {
+      return;
+    }
+
+    // Move the tab and keep the focus on the moved tab.
+    this._moveTab(index, j);
+    this._focusTab(j);
+  }
+
+  /**
+   * Handle the `'click'` event for the tab bar.
+   */
+  private _evtClick(event: MouseEvent): void {
+    // Do nothing if it's not a left click.
+    if (event.button !== 0) {
+      return;
+    }
+
+    // Do nothing if a drag is in progress.
+    if (this._dragData) {
+      return;
+    }
+
+    // Scroll the tabs if the click is on a scroll button.
+    let target = event.target as HTMLElement;
+    let onPrev = this._isOnButton(PREV_BUTTON_CLASS, target);
+    let onNext = this._isOnButton(NEXT_BUTTON_CLASS, target);
+    if (onPrev || onNext) {
+      event.preventDefault();
+      event.stopPropagation();
+      let content = this.contentNode;
+      let forward = onNext;
+      let reversed = this._isReversed();
+      TabBarPrivate.scrollStep(content, this._tabs, this._orientation, reversed, forward);
+      this.update();
+      return;
+    }
+
+    // Toggle the overflow menu if the click is on the menu button.
+    if (this._isOnButton(MENU_BUTTON_CLASS, target)) {
+      event.preventDefault();
+      event.stopPropagation();
+      if (this._overflowMenu) {
+        this._closeOverflowMenu();
+      } else {
+        this._openOverflowMenu();
+      }
+      return;
+    }
+
+    // Do nothing if the click is not on a tab.
+    let x = event.clientX;
+    let y = event.clientY;
+    let i = arrays.findIndex(this._tabs, tab => hitTest(tab, x, y));
+    if (i < 0) {
+      return;
+    }
+
+    // Clicking on a tab stops the event propagation.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Ignore the click if the title is not closable.
+    let item = this._items[i];
+    if (!item.title.closable) {
+      return;
+    }
+
+    // Ignore the click if it was not on a close icon.
+    let constructor = this.constructor as typeof TabBar;
+    let icon = constructor.tabCloseIcon(this._tabs[i]);
+    if (!icon.contains(event.target as HTMLElement)) {
+      return;
+    }
+
+    // Emit the tab close requested signal.
+    this.tabCloseRequested.emit({ index: i, item });
+  }
+
+  /**
+   * Handle the `'auxclick'` event for the tab bar.
+   */
+  private _evtAuxClick(event: MouseEvent): void {
+    // Do nothing if it's not a middle click.
+    if (event.button !== 1) {
+      return;
+    }
+
+    // Do nothing if a drag is in progress.
+    if (this._dragData) {
+      return;
+    }
+
+    // Do nothing if the click is not on a closable tab.
+    let i = this._middleCloseIndex(event);
+    if (i < 0) {
+      return;
+    }
+
+    // Clicking on a tab stops the event propagation.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Emit the tab close requested signal.
+    this.tabCloseRequested.emit({ index: i, item: this._items[i] });
+  }
+
+  /**
+   * Handle the `'mouseover'` event for the tab bar.
+   */
+  private _evtMouseOver(event: MouseEvent): void {
+    // Do nothing if hovering is disabled or a drag is in progress.
+    if (!this._hoverEnabled || this._dragData) {
+      return;
+    }
+
+    // Do nothing if the hovered item has not changed.
+    let target = event.target as HTMLElement;
+    let i = arrays.findIndex(this._tabs, tab => tab.contains(target));
+    let item = i === -1 ? null : this._items[i];
+    if (item === this._hoverItem) {
+      return;
+    }
+
+    // End the old hover and start the delay for the new item.
+    this._endHover();
+    if (item) this._startHover(item);
+  }
+
+  /**
+   * Handle the `'contextmenu'` event for the tab bar.
+   */
+  private _evtContextMenu(event: MouseEvent): void {
+    // Suppress the context menu during a drag.
+    if (this._dragData) {
+      event.preventDefault();
+      event.stopPropagation();
+      return;
+    }
+
+    // Do nothing if the request is not on a tab.
+    let x = event.clientX;
+    let y = event.clientY;
+    let i = arrays.findIndex(this._tabs, tab => hitTest(tab, x, y));
+    if (i < 0) {
+      return;
+    }
+
+    // Requesting a menu on a tab stops the event propagation.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Emit the tab context menu requested signal.
+    let item = this._items[i];
+    this.tabContextMenuRequested.emit({ index: i, item, clientX: x, clientY: y });
+  }
+
+  /**
+   * Handle the `'dblclick'` event for the tab bar.
+   */
+  private _evtDblClick(event: MouseEvent): void {
+    // Do nothing if it's not a left double click.
+    if (event.button !== 0) {
+      return;
+    }
+
+    // Do nothing if a drag is in progress.
+    if (this._dragData) {
+      return;
+    }
+
+    // Do nothing if the double click is not on a tab.
+    let x = event.clientX;
+    let y = event.clientY;
+    let i = arrays.findIndex(this._tabs, tab => hitTest(tab, x, y));
+    if (i < 0) {
+      return;
+    }
+
+    // Double clicking on a tab stops the event propagation.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Ignore the double click if it was on a close icon.
+    let constructor = this.constructor as typeof TabBar;
+    let icon = constructor.tabCloseIcon(this._tabs[i]);
+    if (icon.contains(event.target as HTMLElement)) {
+      return;
+    }
+
+    // Emit the tab double clicked signal.
+    this.tabDoubleClicked.emit({ index: i, item: this._items[i] });
+  }
+
+  /**
+   * Handle the `'mousedown'` event for the tab bar.
+   */
+  private _evtMouseDown(event: MouseEvent): void {
+    // Any mouse press ends the hover of a tab.
+    this._endHover();
+
+    // Suppress auto scrolling for a middle press on a closable tab.
+    if (event.button === 1 && !this._dragData && this._middleCloseIndex(event) !== -1) {
+      event.preventDefault();
+      return;
+    }
+
+    // Do nothing if it's not a left mouse press.
+    if (event.button !== 0) {
+      return;
+    }
+
+    // Do nothing if a drag is in progress.
+    if (this._dragData) {
+      return;
+    }
+
+    // Do nothing if the press is on a scroll button.
+    let target = event.target as HTMLElement;
+    if (this._isOnButton(PREV_BUTTON_CLASS, target) ||
+        this._isOnButton(NEXT_BUTTON_CLASS, target) ||
+        this._isOnButton(MENU_BUTTON_CLASS, target)) {
+      return;
+    }
+
+    // Do nothing if the press is not on a tab.
+    let x = event.clientX;
+    let y = event.clientY;
+    let i = arrays.findIndex(this._tabs, tab => hitTest(tab, x, y));
+    if (i < 0) {
+      return;
+    }
+
+    // Pressing on a tab stops the event propagation.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Ignore the press if it was on a close icon.
+    let constructor = this.constructor as typeof TabBar;
+    let icon = constructor.tabCloseIcon(this._tabs[i]);
+    if (icon.contains(event.target as HTMLElement)) {
+      return;
+    }
+
+    // Update the selection if multi-selection is enabled.
+    if (this._multiSelectEnabled) {
+      if (event.shiftKey) {
+        this._selectRange(i);
+        return;
+      }
+      if (event.ctrlKey || event.metaKey) {
+        this._toggleSelected(i);
+        return;
+      }
+      this._selectionAnchor = this._items[i];
+      this._setSelection([]);
+    }
+
+    // Update the current item to the pressed item.
+    let item = this._items[i];
+    this.currentItem = item;
+
+    // Do not start a drag if the change of current item was vetoed.
+    if (this._currentItem !== item) {
+      return;
+    }
+
+    // Setup the drag data if the tabs are movable.
+    if (this._tabsMovable) {
+      this._dragData = new TabBarPrivate.DragData();
+      this._dragData.index = i;
+      this._dragData.tab = this._tabs[i];
+      this._dragData.pressX = event.clientX;
+      this._dragData.pressY = event.clientY;
+      document.addEventListener('mousemove', this, true);
+      document.addEventListener('mouseup', this, true);
+      document.addEventListener('keydown', this, true);
+      document.addEventListener('contextmenu', this, true);
+    }
+  }
+
+  /**
+   * Handle the `'mousemove'` event for the tab bar.
+   */
+  private _evtMouseMove(event: MouseEvent): void {
+    // Do nothing if no drag is in progress.
+    if (!this._dragData) {
+      return;
+    }
+
+    // Suppress the event during a drag.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Ensure the drag threshold is exceeded before moving the tab.
+    let data = this._dragData;
+    if (!data.dragActive) {
+      let dx = Math.abs(event.clientX - data.pressX);
+      let dy = Math.abs(event.clientY - data.pressY);
+      if (dx < DRAG_THRESHOLD && dy < DRAG_THRESHOLD) {
+        return;
+      }
+
+      // Fill in the rest of the drag data measurements.
+      let content = this.contentNode;
+      data.orientation = this._orientation;
+      data.reversed = this._isReversed();
+      data.wrap = this._overflowMode === OverflowMode.Wrap;
+      data.tabLayout = TabBarPrivate.snapTabLayout(content, this._tabs, data.orientation, data.reversed);
+      data.contentRect = content.getBoundingClientRect();
+      data.scrollPos = TabBarPrivate.scrollPos(content, data.orientation, data.reversed);
+      data.scrollSize = TabBarPrivate.scrollSize(content, data.orientation);
+      data.tabPos = data.tabLayout[data.index].pos;
+      data.tabSize = data.tabLayout[data.index].size;
+      data.tabPressPos = TabBarPrivate.localPressPos(data) + data.scrollPos - data.tabPos;
+      data.tabRect = data.tab.getBoundingClientRect();
+      data.group = data.wrap ? null : this._dragGroupIndices(data.index);
+      data.override = overrideCursor('default');
+
+      // Add the dragging classes and mark the drag as active.
+      let dragTabs = TabBarPrivate.draggedTabs(this._tabs, data);
+      for (let i = 0, n = dragTabs.length; i < n; ++i) {
+        dragTabs[i].classList.add(DRAGGING_CLASS);
+      }
+      this.addClass(DRAGGING_CLASS);
+      data.dragActive = true;
+      this.dragStarted.emit({ index: data.index, item: this._items[data.index] });
+      if (data.dragAborted) {
+        return;
+      }
+    }
+
+    // Show the insertion gap in a connected tab bar under the mouse.
+    let x = event.clientX;
+    let y = event.clientY;
+    let target = data.group ? null : TabBarPrivate.findDropTarget(this, x, y);
+    if (target && target._dragData) target = null;
+    if (data.dropTarget && data.dropTarget !== target) {
+      data.dropTarget._clearDropGap();
+    }
+    data.dropTarget = target;
+    if (target) {
+      TabBarPrivate.showDragImage(data, x, y);
+      target._updateDropGap(x, y, data.tab);
+      this.dragMoved.emit({ index: data.index, item: this._items[data.index], targetIndex: -1 });
+      return;
+    }
+    TabBarPrivate.hideDragImage(data);
+
+    // Emit the detach request signal if the threshold is exceeded.
+    if (!data.detachRequested && TabBarPrivate.detachExceeded(data, event)) {
+      data.detachRequested = true;
+      let index = data.index;
+      let item = this._items[index];
+      let clientX = event.clientX;
+      let clientY = event.clientY;
+      this.tabDetachRequested.emit({ index, item, clientX, clientY });
+      if (data.dragAborted) {
+        return;
+      }
+    }
+
+    // Update the tab layout and computed target index.
+    TabBarPrivate.layoutTabs(this._tabs, data, event);
+
+    // Emit the drag moved signal with the computed target index.
+    let index = data.index;
+    let item = this._items[index];
+    let targetIndex = data.targetIndex;
+    this.dragMoved.emit({ index, item, targetIndex });
+  }
+
+  /**
+   * Handle the `'mouseup'` event for the tab bar.
+   */
+  private _evtMouseUp(event: MouseEvent): void {
+    // Do nothing if it's not a left mouse release.
+    if (event.button !== 0) {
+      return;
+    }
+
+    // Do nothing if no drag is in progress.
+    if (!this._dragData) {
+      return;
+    }
+
+    // Suppress the event during a drag operation.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Remove the extra mouse event listeners.
+    document.removeEventListener('mousemove', this, true);
+    document.removeEventListener('mouseup', this, true);
+    document.removeEventListener('keydown', this, true);
+    document.removeEventListener('contextmenu', this, true);
+
+    // Bail early if the drag is not active.
+    let data = this._dragData;
+    if (!data.dragActive) {
+      this._dragData = null;
+      return;
+    }
+
+    // Transfer the tab if it is dropped on a connected tab bar.
+    if (data.dropTarget && data.dropTarget._dropData) {
+      this._dropOnTarget(data, data.dropTarget);
+      return;
+    }
+
+    // Mark the drag as released for the duration of the transition.
+    data.dragReleased = true;
+
+    // Position the dragged tabs at their final resting positions.
+    let dragTabs = TabBarPrivate.draggedTabs(this._tabs, data);
+    TabBarPrivate.finalizeTabPosition(this._tabs, data);
+
+    // Remove the dragging class from the tabs so they can be transitioned.
+    for (let k = 0, n = dragTabs.length; k < n; ++k) {
+      dragTabs[k].classList.remove(DRAGGING_CLASS);
+    }
+
+    // Complete the release on a timer to allow the tab to transition.
+    setTimeout(() => {
+      // Do nothing if the drag has been aborted.
+      if (data.dragAborted) {
+        return;
+      }
+
+      // Clear the drag data reference.
+      this._dragData = null;
+
+      // Reset the positions of the tabs.
+      TabBarPrivate.resetTabPositions(this._tabs);
+
+      // Clear the cursor grab and drag styles.
+      data.override.dispose();
+      this.removeClass(DRAGGING_CLASS);
+
+      // Move the drag group as a block to the new location, or
+      // move the tab and related tab item if the tab was moved.
+      let i = data.index;
+      let j = data.targetIndex === -1 ? i : data.targetIndex;
+      let item = this._items[i];
+      if (data.group) {
+        this._moveGroup(data.group, j);
+      } else if (i !== j) {
+        this._moveTab(i, j);
+      }
+
+      // Emit the drag ended signal.
+      this.dragEnded.emit({ index: i, item, targetIndex: j });
+    }, TRANSITION_DURATION);
+  }
+
+  /**
+   * Complete a drag by dropping the tab on a connected tab bar.
+   */
+  private _dropOnTarget(data: TabBarPrivate.DragData, target: TabBar): void {
+    // Clear the insertion gap of the target tab bar.
+    let toIndex = target._dropData.index;
+    target._clearDropGap();
+
+    // Clear the drag state of the source tab bar.
+    this._dragData = null;
+    TabBarPrivate.hideDragImage(data);
+    TabBarPrivate.resetTabPositions(this._tabs);
+    data.override.dispose();
+    data.tab.classList.remove(DRAGGING_CLASS);
+    this.removeClass(DRAGGING_CLASS);
+
+    // Transfer the item and emit the drag ended signal.
+    let index = data.index;
+    let item = this._items[index];
+    target._acceptDrop(this, index, item, toIndex);
+    this.dragEnded.emit({ index, item, targetIndex: -1 });
+  }
+
+  /**
+   * Accept a tab dropped from a connected tab bar.
+   */
+  private _acceptDrop(source: TabBar, fromIndex: number, item: ITabItem, toIndex: number): void {
+    let args = { source, fromIndex, toIndex, item, handled: false, cancel: false };
+    this.tabDropped.emit(args);
+    if (args.handled || args.cancel) {
+      return;
+    }
+    source.removeItem(item);
+    this.insertItem(toIndex, item);
+    this.currentItem = item;
+  }
+
+  /**
+   * Show the insertion gap for a tab dragged from a connected tab bar.
+   *
+   * @param clientX - The client X position of the mouse.
+   *
+   * @param clientY - The client Y position of the mouse.
+   *
+   * @param tab - The dragged tab node, which is measured along the
+   *   layout axis of this tab bar for the size of the gap.
+   */
+  private _updateDropGap(clientX: number, clientY: number, tab: HTMLElement): void {
+    // Snap the tab layout when the dragged tab enters the tab bar.
+    let data = this._dropData;
+    if (!data) {
+      let content = this.contentNode;
+      data = new TabBarPrivate.DropData();
+      data.orientation = this._orientation;
+      data.reversed = this._isReversed();
+      data.wrap = this._overflowMode === OverflowMode.Wrap;
+      data.tabLayout = TabBarPrivate.snapTabLayout(content, this._tabs, data.orientation, data.reversed);
+      data.contentRect = content.getBoundingClientRect();
+      data.scrollPos = TabBarPrivate.scrollPos(content, data.orientation, data.reversed);
+      data.size = TabBarPrivate.tabSize(tab, data.orientation);
+      this._dropData = data;
+      this.addClass(DRAGGING_CLASS);
+    }
+
+    // Shift the tabs after the insertion index by the gap size.
+    let index = TabBarPrivate.dropIndex(data, clientX, clientY);
+    if (index !== data.index) {
+      data.index = index;
+      TabBarPrivate.layoutDropGap(this._tabs, data);
+    }
+  }
+
+  /**
+   * Clear the insertion gap for a tab from a connected tab bar.
+   */
+  private _clearDropGap(): void {
+    if (!this._dropData) {
+      return;
+    }
+    this._dropData = null;
+    TabBarPrivate.resetTabPositions(this._tabs);
+    if (!this._dragData) this.removeClass(DRAGGING_CLASS);
+  }
+
+  /**
+   * Move a tab and its item as a user action.
+   *
+   * #### Notes
+   * This emits the `tabMoved` signal and schedules a render update.
+   */
+  private _moveTab(i: number, j: number): void {
+    // Move the tab and related tab item to the new location.
+    this._reorderTab(i, j);
+
+    // Announce the move and schedule a render update.
+    this._announce(this._announcements.moved, this._items[j]);
+    this.update();
+  }
+
+  /**
+   * Move the tabs of a drag group as a contiguous block.
+   *
+   * @param group - The indices of the group tabs, in tab order.
+   *
+   * @param index - The index of the first group tab after the move.
+   *
+   * #### Notes
+   * This emits the `tabMoved` signal for each single tab move and the
+   * `groupMoved` signal for the group, and schedules a render update.
+   */
+  private _moveGroup(group: number[], index: number): void {
+    // Compute the final order of the items.
+    let items = this._items;
+    let members = group.map(i => items[i]);
+    let rest = items.filter(item => members.indexOf(item) === -1);
+    let order = rest.slice(0, index).concat(members, rest.slice(index));
+
+    // Bail early if the group was not moved.
+    let args = members.map((item, k) => {
+      return { fromIndex: group[k], toIndex: order.indexOf(item), item };
+    });
+    if (args.every(arg => arg.fromIndex === arg.toIndex)) {
+      return;
+    }
+
+    // Move the tabs into the final order one at a time.
+    for (let j = 0, n = order.length; j < n; ++j) {
+      let i = items.indexOf(order[j]);
+      if (i !== j) this._reorderTab(i, j);
+    }
+
+    // Emit the group moved signal and schedule a render update.
+    this.groupMoved.emit(args);
+    this._announce(this._announcements.moved, members[0]);
+    this.update();
+  }
+
+  /**
+   * Move a tab and its item, and emit the move signals.
+   */
+  private _reorderTab(i: number, j: number): void {
+    arrays.move(this._tabs, i, j);
+    arrays.move(this._items, i, j);
+    this.contentNode.insertBefore(this._tabs[j], this._tabs[j + 1]);
+    let args = { fromIndex: i, toIndex: j, item: this._items[j] };
+    this.tabMoved.emit(args);
+    this.itemMoved.emit(args);
+  }
+
+  /**
+   * Get the drag group indices for a drag started at an index.
+   *
+   * #### Notes
+   * This returns `null` if the tab is not in a drag group of two or
+   * more items.
+   */
+  private _dragGroupIndices(index: number): number[] {
+    let group = this._dragGroup;
+    if (group.length < 2 || group.indexOf(this._items[index]) === -1) {
+      return null;
+    }
+    let indices: number[] = [];
+    for (let i = 0, n = this._items.length; i < n; ++i) {
+      if (group.indexOf(this._items[i]) !== -1) indices.push(i);
+    }
+    return indices;
+  }
+
+  /**
+   * Set the current tab item without emitting `currentAboutToChange`.
+   */
+  private _setCurrentItem(item: ITabItem): void {
+    if (this._currentItem === item) {
+      return;
+    }
+    let index = this._items.indexOf(item);
+    this._currentItem = item;
+    this._focusItem = null;
+    this._scrollToCurrent = true;
+    if (item) {
+      arrays.remove(this._history, item);
+      this._history.unshift(item);
+    }
+    if (item) this._announce(this._announcements.selected, item);
+    this.currentChanged.emit({ index, item });
+    this.update();
+  }
+
+  /**
+   * Start the hover delay for a tab item.
+   */
+  private _startHover(item: ITabItem): void {
+    this._hoverItem = item;
+    this._hoverTimer = setTimeout(() => {
+      this._hoverTimer = -1;
+      this._hoverShown = true;
+      this.tabHovered.emit({ index: this._items.indexOf(item), item });
+    }, this._hoverDelay);
+  }
+
+  /**
+   * End the hover of the hovered tab item, if any.
+   *
+   * #### Notes
+   * This emits the `tabHoverEnded` signal if `tabHovered` was emitted.
+   */
+  private _endHover(): void {
+    let item = this._hoverItem;
+    if (!item) {
+      return;
+    }
+    this._hoverItem = null;
+    if (this._hoverTimer !== -1) {
+      clearTimeout(this._hoverTimer);
+      this._hoverTimer = -1;
+    }
+    if (this._hoverShown) {
+      this._hoverShown = false;
+      this.tabHoverEnded.emit({ index: this._items.indexOf(item), item });
+    }
+  }
+
+  /**
+   * Get the index of the closable tab hit by a middle click.
+   *
+   * #### Notes
+   * This returns `-1` if middle click closing is disabled or if the
+   * event is not over a closable tab.
+   */
+  private _middleCloseIndex(event: MouseEvent): number {
+    if (!this._middleClickClose) {
+      return -1;
+    }
+    let x = event.clientX;
+    let y = event.clientY;
+    let i = arrays.findIndex(this._tabs, tab => hitTest(tab, x, y));
+    return i !== -1 && this._items[i].title.closable ? i : -1;
+  }
+
+  /**
+   * Get the item to make current after removing the item at an index.
+   */
+  private _nextCurrentItem(index: number): ITabItem {
+    let next = this._items[index];
+    let prev = this._items[index - 1];
+    switch (this._removalPolicy) {
+    case RemovalPolicy.Previous:
+      return prev || next;
+    case RemovalPolicy.MostRecent:
+      return this._history[0] || next || prev;
+    case RemovalPolicy.None:
+      return null;
+    }
+    return next || prev;
+  }
+
+  /**
+   * Announce a tab message through the live region, if enabled.
+   *
+   * #### Notes
+   * The position defaults to the current index of the item.
+   *
+   * The messages announced in the same tick are added to the live
+   * region as separate nodes, so that a message does not overwrite
+   * the previous one before it is read.
+   */
+  private _announce(template: string, item: ITabItem, index = this._items.indexOf(item)): void {
+    if (!this._announcer) {
+      return;
+    }
+    let title = item.title.text;
+    let position = index + 1;
+    let count = this._items.length;
+    let message = TabBarPrivate.formatMessage(template, title, position, count);
+    if (!this._announcePending) {
+      this._announcePending = true;
+      this._announcer.textContent = '';
+      setTimeout(() => { this._announcePending = false; }, 0);
+    }
+    let node = document.createElement('div');
+    node.textContent = message;
+    this._announcer.appendChild(node);
+  }
+
+  /**
+   * Release the mouse and restore the non-dragged tab positions.
+   */
+  private _releaseMouse(): void {
+    // Do nothing if no drag is in progress.
+    if (!this._dragData) {
+      return;
+    }
+
+    // Remove the extra mouse listeners.
+    document.removeEventListener('mousemove', this, true);
+    document.removeEventListener('mouseup', this, true);
+    document.removeEventListener('keydown', this, true);
+    document.removeEventListener('contextmenu', this, true);
+
+    // Clear the drag data reference.
+    let data = this._dragData;
+    this._dragData = null;
+
+    // Indicate the drag has been aborted. This allows the mouse
+    // event handlers to return early when the drag is canceled.
+    data.dragAborted = true;
+
+    // If the drag is not active, there's nothing more to do.
+    if (!data.dragActive) {
+      return;
+    }
+
+    // Reset the tabs to their non-dragged positions.
+    TabBarPrivate.hideDragImage(data);
+    TabBarPrivate.resetTabPositions(this._tabs);
+    if (data.dropTarget) data.dropTarget._clearDropGap();
+
+    // Clear the cursor override and extra styling classes.
+    data.override.dispose();
+    let dragTabs = TabBarPrivate.draggedTabs(this._tabs, data);
+    for (let i = 0, n = dragTabs.length; i < n; ++i) {
+      dragTabs[i].classList.remove(DRAGGING_CLASS);
+    }
+    this.removeClass(DRAGGING_CLASS);
+
+    // Emit the drag canceled signal.
+    this.dragCanceled.emit({ index: data.index, item: this._items[data.index] });
+  }
+
+  /**
+   * Apply the tab sizing policy to the tabs.
+   *
+   * #### Notes
+   * The tabs are only measured when the tabs, their titles, the size
+   * of the tab bar, or the sizing policy have changed.
+   */
+  private _updateTabSizes(): void {
+    // Keep the snapped tab sizes stable while a drag is in progress.
+    if (!this._sizesDirty || this._dragData) {
+      return;
+    }
+    this._sizesDirty = false;
+    let min = this._minTabSize;
+    let max = Math.max(min, this._maxTabSize);
+    let sizing = this._tabSizing;
+    let orientation = this._orientation;
+    TabBarPrivate.applyTabSizing(this._tabs, orientation, sizing, min, max);
+  }
+
+  /**
+   * Update the row order of the tabs in wrap mode.
+   */
+  private _updateWrapState(): void {
+    // Keep the snapped row layout stable while a drag is in progress.
+    if (this._dragData) {
+      return;
+    }
+    let content = this.contentNode;
+    TabBarPrivate.resetRows(content, this._tabs);
+    if (this._overflowMode !== OverflowMode.Wrap) {
+      return;
+    }
+    let current = this._items.indexOf(this._currentItem);
+    let reversed = this._isReversed();
+    TabBarPrivate.arrangeRows(content, this._tabs, this._orientation, reversed, current);
+  }
+
+  /**
+   * Update the overflow state and scroll position of the tabs.
+   */
+  private _updateScrollState(): void {
+    // Clear the hidden items if the tab bar is in wrap mode.
+    if (this._overflowMode === OverflowMode.Wrap) {
+      this._scrollToCurrent = false;
+      this.removeClass(CLIPPED_CLASS);
+      this._setHiddenItems([]);
+      return;
+    }
+
+    // Skip the scroll state if the tab bar is in none mode, and only
+    // measure the hidden items if the menu or a handler uses them.
+    if (this._overflowMode !== OverflowMode.Scroll) {
+      this._scrollToCurrent = false;
+      if (this._overflowMenuEnabled || this._hiddenItemsHandlers > 0) {
+        this._updateHiddenItems();
+      } else {
+        this.removeClass(CLIPPED_CLASS);
+        this._setHiddenItems([]);
+      }
+      return;
+    }
+
+    // Toggle the overflowing class based on the content extent.
+    let content = this.contentNode;
+    let orientation = this._orientation;
+    let reversed = this._isReversed();
+    let clientSize = TabBarPrivate.clientSize(content, orientation);
+    let scrollSize = TabBarPrivate.scrollSize(content, orientation);
+    this.toggleClass(OVERFLOWING_CLASS, scrollSize > clientSize);
+
+    // Scroll the current tab into view if it was recently changed.
+    if (this._scrollToCurrent) {
+      this._scrollToCurrent = false;
+      let i = this._items.indexOf(this._currentItem);
+      if (i !== -1) TabBarPrivate.scrollIntoView(content, this._tabs[i], orientation, reversed);
+    }
+
+    // Disable the scroll buttons which cannot scroll any further.
+    let pos = TabBarPrivate.scrollPos(content, orientation, reversed);
+    let prev = this._buttonNode(PREV_BUTTON_CLASS);
+    let next = this._buttonNode(NEXT_BUTTON_CLASS);
+    if (prev) prev.classList.toggle(DISABLED_CLASS, pos <= 0);
+    if (next) next.classList.toggle(DISABLED_CLASS, pos + clientSize >= scrollSize);
+
+    // Update the items whose tabs are clipped by the content area.
+    this._updateHiddenItems();
+  }
+
+  /**
+   * Update the items whose tabs are clipped by the content area.
+   *
+   * #### Notes
+   * Showing or hiding the menu button changes the extent of the
+   * content area, so the tabs are measured again when it toggles.
+   */
+  private _updateHiddenItems(): void {
+    let content = this.contentNode;
+    let orientation = this._orientation;
+    let reversed = this._isReversed();
+    let find = () => {
+      let indices = TabBarPrivate.findClippedTabs(content, this._tabs, orientation, reversed);
+      return indices.map(i => this._items[i]);
+    };
+    let hidden = find();
+    if ((hidden.length > 0) !== this.hasClass(CLIPPED_CLASS)) {
+      this.toggleClass(CLIPPED_CLASS, hidden.length > 0);
+      hidden = find();
+      this.toggleClass(CLIPPED_CLASS, hidden.length > 0);
+    }
+    this._setHiddenItems(hidden);
+  }
+
+  /**
+   * Set the hidden items and emit the changed signal if needed.
+   */
+  private _setHiddenItems(items: ITabItem[]): void {
+    let old = this._hiddenItems;
+    if (old.length === items.length && old.every((item, i) => item === items[i])) {
+      return;
+    }
+    this._hiddenItems = items;
+    TabBarPrivate.hiddenItemsChangedSignal.bind(this).emit(items.slice());
+  }
+
+  /**
+   * Replace the selected items and emit the selection signal.
+   *
+   * #### Notes
+   * The items must be provided in tab order.
+   */
+  private _setSelection(items: ITabItem[]): void {
+    let old = this.selectedItems;
+    if (old.length === items.length && old.every((item, i) => item === items[i])) {
+      return;
+    }
+    this._selection = items;
+    this.update();
+    this.selectionChanged.emit(items.slice());
+  }
+
+  /**
+   * Toggle the selection of the item at the given index.
+   */
+  private _toggleSelected(index: number): void {
+    let item = this._items[index];
+    let selection = this.selectedItems;
+    if (arrays.remove(selection, item) === -1) {
+      this._setSelection(this._items.filter(other => {
+        return other === item || selection.indexOf(other) !== -1;
+      }));
+    } else {
+      this._setSelection(selection);
+    }
+    this._selectionAnchor = item;
+  }
+
+  /**
+   * Select the range of items from the selection anchor to an index.
+   *
+   * #### Notes
+   * The current item is used as the anchor if there is no anchor.
+   */
+  private _selectRange(index: number): void {
+    let anchor = this._items.indexOf(this._selectionAnchor || this._currentItem);
+    if (anchor === -1) anchor = index;
+    let first = Math.min(anchor, index);
+    let last = Math.max(anchor, index);
+    this._setSelection(this._items.slice(first, last + 1));
+  }
+
+  /**
+   * Open the built-in overflow menu for the hidden items.
+   */
+  private _openOverflowMenu(): void {
+    if (this._overflowMenu || this._hiddenItems.length === 0) {
+      return;
+    }
+    let items = this._hiddenItems.slice();
+    let anchor = this._buttonNode(MENU_BUTTON_CLASS) || this.node;
+    let menu = new TabBarPrivate.OverflowMenu(items, this._currentItem, anchor);
+    menu.selected = item => { this._onOverflowMenuSelected(item); };
+    menu.closed = () => { this._overflowMenu = null; };
+    this._overflowMenu = menu;
+    menu.open();
+  }
+
+  /**
+   * Close the built-in overflow menu if it is open.
+   */
+  private _closeOverflowMenu(): void {
+    if (this._overflowMenu) this._overflowMenu.close();
+  }
+
+  /**
+   * Handle the selection of an item in the overflow menu.
+   */
+  private _onOverflowMenuSelected(item: ITabItem): void {
+    if (this._items.indexOf(item) === -1) {
+      return;
+    }
+    this.currentItem = item;
+    this._scrollToCurrent = true;
+    this.update();
+  }
+
+  /**
+   * Move the roving tab index and keyboard focus to a tab.
+   */
+  private _focusTab(index: number): void {
+    let tabs = this._tabs;
+    this._focusItem = this._items[index];
+    for (let i = 0, n = tabs.length; i < n; ++i) {
+      tabs[i].tabIndex = i === index ? 0 : -1;
+    }
+    if (this._overflowMode === OverflowMode.Scroll) {
+      let content = this.contentNode;
+      let reversed = this._isReversed();
+      TabBarPrivate.scrollIntoView(content, tabs[index], this._orientation, reversed);
+      this.update();
+    }
+    tabs[index].focus();
+  }
+
+  /**
+   * Test whether the tabs are laid out from right to left.
+   */
+  private _isReversed(): boolean {
+    if (this._orientation !== Orientation.Horizontal) {
+      return false;
+    }
+    switch (this._textDirection) {
+    case TextDirection.LeftToRight:
+      return false;
+    case TextDirection.RightToLeft:
+      return true;
+    }
+    return window.getComputedStyle(this.node).direction === 'rtl';
+  }
+
+  /**
+   * Get the body button node with the given class name.
+   *
+   * #### Notes
+   * This returns `null` if the node created by a `createNode`
+   * override does not contain the button.
+   */
+  private _buttonNode(className: string): HTMLElement {
+    let node = this.bodyNode.getElementsByClassName(className)[0];
+    return (node as HTMLElement) || null;
+  }
+
+  /**
+   * Test whether an event target is within a body button node.
+   */
+  private _isOnButton(className: string, target: HTMLElement): boolean {
+    let node = this._buttonNode(className);
+    return !!node && node.contains(target);
+  }
+
+  /**
+   * Update a tab node for an item, including the tab tooltip.
+   */
+  private _updateTab(tab: HTMLElement, item: ITabItem): void {
+    let constructor = this.constructor as typeof TabBar;
+    constructor.updateTab(tab, item.title);
+    let func = this._tooltipFunc;
+    let tooltip = func ? func(item) : item.title.caption;
+    if (tooltip) {
+      tab.title = tooltip;
+    } else {
+      tab.removeAttribute('title');
+    }
+  }
+
+  /**
+   * Handle the `changed` signal of a title object.
+   */
+  private _onTitleChanged(sender: Title): void {
+    this._dirtySet.add(sender);
+    this._sizesDirty = true;
+    this.update();
+  }
+
+  private _tabsMovable = false;
+  private _middleClickClose = true;
+  private _connectionGroup = '';
+  private _hoverEnabled = false;
+  private _hoverDelay = 500;
+  private _tooltipFunc: TabTooltipFunc = null;
+  private _hoverTimer = -1;
+  private _hoverShown = false;
+  private _hoverItem: ITabItem = null;
+  private _multiSelectEnabled = false;
+  private _removalPolicy = RemovalPolicy.Next;
+  private _activateOnFocus = false;
+  private _orientation = Orientation.Horizontal;
+  private _textDirection = TextDirection.Auto;
+  private _overflowMode = OverflowMode.None;
+  private _tabSizing = TabSizing.Natural;
+  private _minTabSize = 0;
+  private _maxTabSize = Infinity;
+  private _sizesDirty = false;
+  private _scrollToCurrent = false;
+  private _overflowMenuEnabled = false;
+  private _hiddenItems: ITabItem[] = [];
+  private _hiddenItemsHandlers = 0;
+  private _overflowMenu: TabBarPrivate.OverflowMenu = null;
+  private _items: ITabItem[] = [];
+  private _tabs: HTMLElement[] = [];
+  private _dirtySet = new Set<Title>();
+  private _currentItem: ITabItem = null;
+  private _focusItem: ITabItem = null;
+  private _history: ITabItem[] = [];
+  private _selection: ITabItem[] = [];
+  private _closingItems = new Set<ITabItem>();
+  private _selectionAnchor: ITabItem = null;
+  private _dragGroup: ITabItem[] = [];
+  private _announcer: HTMLElement = null;
+  private _announcePending = false;
+  private _announcements = TabBarPrivate.createAnnouncements();
+  private _dragData: TabBarPrivate.DragData = null;
+  private _dropData: TabBarPrivate.DropData = null;
+}
+
+
+/**
+ * The namespace for the `TabBar` class statics.
+ */
+export
+namespace TabBar {
+  /**
+   * A convenience alias of the `Horizontal` [[Orientation]].
+   */
+  export
+  const Horizontal = Orientation.Horizontal;
+
+  /**
+   * A convenience alias of the `Vertical` [[Orientation]].
+   */
+  export
+  const Vertical = Orientation.Vertical;
+}
+
+
+/**
+ * The namespace for the `TabBar` class private data.
+ */
+namespace TabBarPrivate {
+  /**
+   * A signal emitted when the current tab item is changed.
+   */
+  export
+  const currentChangedSignal = new Signal<TabBar, ITabIndexArgs>();
+
+  /**
+   * A signal emitted when an item is inserted.
+   */
+  export
+  const itemInsertedSignal = new Signal<TabBar, ITabIndexArgs>();
+
+  /**
+   * A signal emitted when an item is removed.
+   */
+  export
+  const itemRemovedSignal = new Signal<TabBar, ITabIndexArgs>();
+
+  /**
+   * A signal emitted when an item is moved.
+   */
+  export
+  const itemMovedSignal = new Signal<TabBar, ITabMovedArgs>();
+
+  /**
+   * A signal emitted when the current tab is about to change.
+   */
+  export
+  const currentAboutToChangeSignal = new Signal<TabBar, ICurrentAboutToChangeArgs>();
+
+  /**
+   * A signal emitted when a tab is moved by the user.
+   */
+  export
+  const tabMovedSignal = new Signal<TabBar, ITabMovedArgs>();
+
+  /**
+   * A signal emitted when the user clicks a tab's close icon.
+   */
+  export
+  const tabCloseRequestedSignal = new Signal<TabBar, ITabIndexArgs>();
+
+  /**
+   * A signal emitted when the mouse rests on a tab.
+   */
+  export
+  const tabHoveredSignal = new Signal<TabBar, ITabIndexArgs>();
+
+  /**
+   * A signal emitted when the hover of a tab ends.
+   */
+  export
+  const tabHoverEndedSignal = new Signal<TabBar, ITabIndexArgs>();
+
+  /**
+   * A signal emitted when a tab is double clicked.
+   */
+  export
+  const tabDoubleClickedSignal = new Signal<TabBar, ITabIndexArgs>();
+
+  /**
+   * A signal emitted when a tab context menu is requested.
+   */
+  export
+  const tabContextMenuRequestedSignal = new Signal<TabBar, ITabContextMenuArgs>();
+
+  /**
+   * A signal emitted when a tab drag is started.
+   */
+  export
+  const dragStartedSignal = new Signal<TabBar, ITabIndexArgs>();
+
+  /**
+   * A signal emitted when the mouse is moved during a tab drag.
+   */
+  export
+  const dragMovedSignal = new Signal<TabBar, ITabDragArgs>();
+
+  /**
+   * A signal emitted when a tab drag is canceled.
+   */
+  export
+  const dragCanceledSignal = new Signal<TabBar, ITabIndexArgs>();
+
+  /**
+   * A signal emitted when a tab drag is completed.
+   */
+  export
+  const dragEndedSignal = new Signal<TabBar, ITabDragArgs>();
+
+  /**
+   * A signal emitted when a tab from a connected tab bar is dropped.
+   */
+  export
+  const tabDroppedSignal = new Signal<TabBar, ITabDropArgs>();
+
+  /**
+   * A signal emitted when a tab is dragged beyond the detach threshold.
+   */
+  export
+  const tabDetachRequestedSignal = new Signal<TabBar, ITabDetachArgs>();
+
+  /**
+   * A signal emitted when the set of clipped tab items is changed.
+   */
+  export
+  const hiddenItemsChangedSignal = new Signal<TabBar, ITabItem[]>();
+
+  /**
+   * A signal emitted when the selected tab items are changed.
+   */
+  export
+  const selectionChangedSignal = new Signal<TabBar, ITabItem[]>();
+
+  /**
+   * A signal emitted when a drag group is moved.
+   */
+  export
+  const groupMovedSignal = new Signal<TabBar, ITabMovedArgs[]>();
+
+  /**
+   * The tab bars which are currently attached to the DOM.
+   */
+  export
+  const attachedBars: TabBar[] = [];
+
+  /**
+   * Find the connected tab bar which accepts a drop at a position.
+   *
+   * @returns The tab bar under the position which is in the same
+   *   connection group as the source, or `null`.
+   */
+  export
+  function findDropTarget(source: TabBar, clientX: number, clientY: number): TabBar {
+    let group = source.connectionGroup;
+    if (!group) {
+      return null;
+    }
+    for (let i = 0, n = attachedBars.length; i < n; ++i) {
+      let bar = attachedBars[i];
+      if (bar === source || bar.connectionGroup !== group) {
+        continue;
+      }
+      if (bar.isDragging || !bar.isVisible) {
+        continue;
+      }
+      if (hitTest(bar.node, clientX, clientY)) {
+        return bar;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The id counter for generated tab node ids.
+   */
+  let tabIdTick = 0;
+
+  /**
+   * Create a unique id for a tab node.
+   */
+  export
+  function createTabId(): string {
+    return `p-TabBar-tab-${tabIdTick++}`;
+  }
+
+  /**
+   * An enum of the keyboard navigation actions for a tab bar.
+   */
+  export
+  enum NavigationKey {
+    /**
+     * The key does not map to a navigation action.
+     */
+    None,
+
+    /**
+     * Move the focus to the previous tab.
+     */
+    Previous,
+
+    /**
+     * Move the focus to the next tab.
+     */
+    Next,
+
+    /**
+     * Move the focus to the first tab.
+     */
+    First,
+
+    /**
+     * Move the focus to the last tab.
+     */
+    Last,
+
+    /**
+     * Activate the focused tab.
+     */
+    Activate,
+  }
+
+  /**
+   * Get the navigation action for a key press on a tab bar.
+   *
+   * #### Notes
+   * The arrow keys follow the layout axis, and the horizontal arrow
+   * keys are swapped for a reversed layout.
+   */
+  export
+  function navigationKey(event: KeyboardEvent, orientation: Orientation, reversed: boolean): NavigationKey {
+    let horz = orientation === Orientation.Horizontal;
+    let prevKey = horz ? (reversed ? 39 : 37) : 38;
+    let nextKey = horz ? (reversed ? 37 : 39) : 40;
+    switch (event.keyCode) {
+    case prevKey:
+      return NavigationKey.Previous;
+    case nextKey:
+      return NavigationKey.Next;
+    case 36:  // Home
+      return NavigationKey.First;
+    case 35:  // End
+      return NavigationKey.Last;
+    case 13:  // Enter
+    case 32:  // Space
+      return NavigationKey.Activate;
+    }
+    return NavigationKey.None;
+  }
+
+  /**
+   * Create the default screen reader announcement templates.
+   */
+  export
+  function createAnnouncements(): ITabAnnouncements {
+    return {
+      moved: '{title} moved to position {position} of {count}',
+      removed: '{title} removed',
+      selected: '{title} selected, tab {position} of {count}',
+    };
+  }
+
+  /**
+   * Create a shallow copy of an announcement templates object.
+   */
+  export
+  function copyAnnouncements(value: ITabAnnouncements): ITabAnnouncements {
+    let { moved, removed, selected } = value;
+    return { moved, removed, selected };
+  }
+
+  /**
+   * Create the live region node for the tab bar announcements.
+   */
+  export
+  function createAnnouncerNode(): HTMLElement {
+    let node = document.createElement('div');
+    node.className = ANNOUNCER_CLASS;
+    node.setAttribute('role', 'status');
+    node.setAttribute('aria-live', 'polite');
+    node.setAttribute('aria-atomic', 'true');
+    return node;
+  }
+
+  /**
+   * Format an announcement template with the given tab values.
+   */
+  export
+  function formatMessage(template: string, title: string, position: number, count: number): string {
+    return template
+      .replace(/\{title\}/g, () => title)
+      .replace(/\{position\}/g, `${position}`)
+      .replace(/\{count\}/g, `${count}`);
+  }
+
+  /**
+   * Test whether a key press is a tab close shortcut.
+   *
+   * #### Notes
+   * The close shortcuts are `Delete` and `Ctrl+W` (or `Cmd+W`).
+   */
+  export
+  function isCloseKey(event: KeyboardEvent): boolean {
+    let accel = event.ctrlKey || event.metaKey;
+    if (event.shiftKey || event.altKey) {
+      return false;
+    }
+    switch (event.keyCode) {
+    case 46:  // Delete
+      return !accel;
+    case 87:  // W
+      return accel;
+    }
+    return false;
+  }
+
+  /**
+   * A bound signal which counts the handlers connected through it.
+   *
+   * #### Notes
+   * The callback is invoked with `1` for each new connection and `-1`
+   * for each removed connection. Connections which are removed by the
+   * `disconnectSender` and `disconnectReceiver` functions of the
+   * signaling package are not counted.
+   */
+  export
+  class CountedSignal<T, U> implements ISignal<T, U> {
+    /**
+     * Construct a new counted signal.
+     *
+     * @param signal - The bound signal to wrap.
+     *
+     * @param counted - The callback invoked when the count changes.
+     */
+    constructor(signal: ISignal<T, U>, counted: (delta: number) => void) {
+      this._signal = signal;
+      this._counted = counted;
+    }
+
+    /**
+     * Connect a callback to the signal.
+     */
+    connect(callback: Slot<T, U>, thisArg?: any): boolean {
+      let result = this._signal.connect(callback, thisArg);
+      if (result) this._counted(1);
+      return result;
+    }
+
+    /**
+     * Disconnect a callback from the signal.
+     */
+    disconnect(callback: Slot<T, U>, thisArg?: any): boolean {
+      let result = this._signal.disconnect(callback, thisArg);
+      if (result) this._counted(-1);
+      return result;
+    }
+
+    /**
+     * Emit the signal and invoke the connected callbacks.
+     */
+    emit(args: U): void {
+      this._signal.emit(args);
+    }
+
+    private _signal: ISignal<T, U>;
+    private _counted: (delta: number) => void;
+  }
+
+  /**
+   * A simple popup menu which lists the hidden items of a tab bar.
+   */
+  export
+  class OverflowMenu {
+    /**
+     * Construct a new overflow menu.
+     *
+     * @param items - The tab items to list in the menu.
+     *
+     * @param current - The current tab item of the tab bar.
+     *
+     * @param anchor - The node below which the menu is positioned.
+     */
+    constructor(items: ITabItem[], current: ITabItem, anchor: HTMLElement) {
+      this._items = items;
+      this._anchor = anchor;
+      this._current = Math.max(0, items.indexOf(current));
+      this._node = createMenuNode(items, current);
+    }
+
+    /**
+     * A callback invoked when the user selects a menu item.
+     */
+    selected: (item: ITabItem) => void = null;
+
+    /**
+     * A callback invoked when the menu is closed.
+     */
+    closed: () => void = null;
+
+    /**
+     * Show the menu below its anchor node.
+     *
+     * #### Notes
+     * The menu item of the current tab, or the first menu item, is
+     * given the keyboard focus.
+     */
+    open(): void {
+      let rect = this._anchor.getBoundingClientRect();
+      let style = this._node.style;
+      style.position = 'absolute';
+      style.top = rect.bottom + window.pageYOffset + 'px';
+      style.left = rect.left + window.pageXOffset + 'px';
+      document.body.appendChild(this._node);
+      this._node.addEventListener('click', this);
+      document.addEventListener('mousedown', this, true);
+      document.addEventListener('keydown', this, true);
+      this._anchor.setAttribute('aria-expanded', 'true');
+      this._focusItem(this._current);
+    }
+
+    /**
+     * Remove the menu from the DOM and invoke the closed callback.
+     *
+     * #### Notes
+     * If the menu holds the keyboard focus, the focus is returned to
+     * the anchor node.
+     */
+    close(): void {
+      if (!this._node.parentNode) {
+        return;
+      }
+      let focused = this._node.contains(document.activeElement);
+      this._node.removeEventListener('click', this);
+      document.removeEventListener('mousedown', this, true);
+      document.removeEventListener('keydown', this, true);
+      this._node.parentNode.removeChild(this._node);
+      this._anchor.setAttribute('aria-expanded', 'false');
+      if (focused) this._anchor.focus();
+      if (this.closed) this.closed();
+    }
+
+    /**
+     * Handle the DOM events for the overflow menu.
+     */
+    handleEvent(event: Event): void {
+      switch (event.type) {
+      case 'click':
+        this._evtClick(event as MouseEvent);
+        break;
+      case 'mousedown':
+        this._evtMouseDown(event as MouseEvent);
+        break;
+      case 'keydown':
+        this._evtKeyDown(event as KeyboardEvent);
+        break;
+      }
+    }
+
+    /**
+     * Handle the `'click'` event for the overflow menu.
+     */
+    private _evtClick(event: MouseEvent): void {
+      let children = this._node.children;
+      let target = event.target as HTMLElement;
+      for (let i = 0, n = children.length; i < n; ++i) {
+        if (children[i].contains(target)) {
+          event.preventDefault();
+          event.stopPropagation();
+          this.close();
+          if (this.selected) this.selected(this._items[i]);
+          return;
+        }
+      }
+    }
+
+    /**
+     * Handle the `'mousedown'` event for the overflow menu.
+     */
+    private _evtMouseDown(event: MouseEvent): void {
+      // Presses on the anchor are handled by the tab bar.
+      let target = event.target as HTMLElement;
+      if (this._node.contains(target) || this._anchor.contains(target)) {
+        return;
+      }
+      this.close();
+    }
+
+    /**
+     * Handle the `'keydown'` event for the overflow menu.
+     */
+    private _evtKeyDown(event: KeyboardEvent): void {
+      // Close the menu and let the focus move on if `Tab` is pressed.
+      if (event.keyCode === 9) {
+        this.close();
+        return;
+      }
+
+      // Compute the index of the item to focus.
+      let i = this._current;
+      let n = this._items.length;
+      switch (event.keyCode) {
+      case 13:  // Enter
+      case 32:  // Space
+        event.preventDefault();
+        event.stopPropagation();
+        this.close();
+        if (this.selected) this.selected(this._items[i]);
+        return;
+      case 27:  // Escape
+        event.preventDefault();
+        event.stopPropagation();
+        this.close();
+        return;
+      case 35:  // End
+        i = n - 1;
+        break;
+      case 36:  // Home
+        i = 0;
+        break;
+      case 38:  // Up Arrow
+        i = i === 0 ? n - 1 : i - 1;
+        break;
+      case 40:  // Down Arrow
+        i = i === n - 1 ? 0 : i + 1;
+        break;
+      default:
+        return;
+      }
+
+      // Move the focus to the new item.
+      event.preventDefault();
+      event.stopPropagation();
+      this._focusItem(i);
+    }
+
+    /**
+     * Move the roving tab index and keyboard focus to a menu item.
+     */
+    private _focusItem(index: number): void {
+      let children = this._node.children;
+      for (let i = 0, n = children.length; i < n; ++i) {
+        (children[i] as HTMLElement).tabIndex = i === index ? 0 : -1;
+      }
+      this._current = index;
+      (children[index] as HTMLElement).focus();
+    }
+
+    private _node: HTMLElement;
+    private _anchor: HTMLElement;
+    private _items: ITabItem[];
+    private _current: number;
+  }
+
+  /**
+   * Create the DOM node for an overflow menu.
+   */
+  function createMenuNode(items: ITabItem[], current: ITabItem): HTMLElement {
+    let node = document.createElement('ul');
+    node.className = MENU_CLASS;
+    node.setAttribute('role', 'menu');
+    for (let i = 0, n = items.length; i < n; ++i) {
+      let item = items[i];
+      let title = item.title;
+      let li = document.createElement('li');
+      let icon = document.createElement('span');
+      let text = document.createElement('span');
+      li.className = MENU_ITEM_CLASS;
+      li.tabIndex = -1;
+      li.setAttribute('role', 'menuitem');
+      if (item === current) li.classList.add(CURRENT_CLASS);
+      icon.className = MENU_ICON_CLASS + (title.icon ? ' ' + title.icon : '');
+      text.className = MENU_TEXT_CLASS;
+      text.textContent = title.text;
+      li.appendChild(icon);
+      li.appendChild(text);
+      node.appendChild(li);
+    }
+    return node;
+  }
+
+  /**
+   * A struct which holds the drag data for a tab bar.
+   */
+  export
+  class DragData {
+    /**
+     * The tab node being dragged.
+     */
+    tab: HTMLElement = null;
+
+    /**
+     * The index of the tab being dragged.
+     */
+    index = -1;
+
+    /**
+     * The orientation of the tab bar when the drag was started.
+     */
+    orientation = Orientation.Horizontal;
+
+    /**
+     * Whether the tabs are laid out against the physical axis.
+     */
+    reversed = false;
+
+    /**
+     * Whether the tabs are wrapped into multiple rows.
+     */
+    wrap = false;
+
+    /**
+     * The offset position of the tab being dragged along the layout axis.
+     */
+    tabPos = -1;
+
+    /**
+     * The offset size of the tab being dragged along the layout axis.
+     */
+    tabSize = -1;
+
+    /**
+     * The original mouse position in logical tab coordinates.
+     */
+    tabPressPos = -1;
+
+    /**
+     * The tab target index upon mouse release.
+     *
+     * #### Notes
+     * For a group drag, this is the index of the first group tab.
+     */
+    targetIndex = -1;
+
+    /**
+     * The indices of the drag group tabs, or `null` for a single tab.
+     */
+    group: number[] = null;
+
+    /**
+     * The array of tab layout objects snapped at drag start.
+     */
+    tabLayout: ITabLayout[] = null;
+
+    /**
+     * The mouse press client X position.
+     */
+    pressX = -1;
+
+    /**
+     * The mouse press client Y position.
+     */
+    pressY = -1;
+
+    /**
+     * The bounding client rect of the tab bar content node.
+     */
+    contentRect: ClientRect = null;
+
+    /**
+     * The scroll position of the content node along the layout axis.
+     */
+    scrollPos = 0;
+
+    /**
+     * The scroll size of the content node along the layout axis.
+     */
+    scrollSize = -1;
+
+    /**
+     * The disposable to clean up the cursor override.
+     */
+    override: IDisposable = null;
+
+    /**
+     * Whether the drag is currently active.
+     */
+    dragActive = false;
+
+    /**
+     * Whether the drag has been aborted.
+     */
+    dragAborted = false;
+
+    /**
+     * Whether the mouse has been released to drop the tab.
+     */
+    dragReleased = false;
+
+    /**
+     * Whether a detach request as been made.
+     */
+    detachRequested = false;
+
+    /**
+     * The connected tab bar under the mouse, or `null`.
+     */
+    dropTarget: TabBar = null;
+
+    /**
+     * The bounding client rect of the dragged tab at drag start.
+     */
+    tabRect: ClientRect = null;
+
+    /**
+     * The copy of the dragged tab which follows the mouse over a
+     * connected tab bar, or `null`.
+     */
+    dragImage: HTMLElement = null;
+  }
+
+  /**
+   * A struct which holds the drop data for a connected tab bar.
+   */
+  export
+  class DropData {
+    /**
+     * The orientation of the tab bar when the tab entered it.
+     */
+    orientation = Orientation.Horizontal;
+
+    /**
+     * Whether the tabs are laid out against the physical axis.
+     */
+    reversed = false;
+
+    /**
+     * Whether the tabs are wrapped into multiple rows.
+     */
+    wrap = false;
+
+    /**
+     * The array of tab layout objects snapped when the tab entered.
+     */
+    tabLayout: ITabLayout[] = null;
+
+    /**
+     * The bounding client rect of the tab bar content node.
+     */
+    contentRect: ClientRect = null;
+
+    /**
+     * The scroll position of the content node along the layout axis.
+     */
+    scrollPos = 0;
+
+    /**
+     * The size of the insertion gap along the layout axis.
+     */
+    size = 0;
+
+    /**
+     * The insertion index of the dropped tab.
+     */
+    index = -1;
+  }
+
+  /**
+   * An object which holds the axis data for positioning tabs.
+   */
+  export
+  interface IAxisData {
+    /**
+     * The orientation of the tab bar.
+     */
+    orientation: Orientation;
+
+    /**
+     * Whether the tabs are laid out against the physical axis.
+     */
+    reversed: boolean;
+
+    /**
+     * The bounding client rect of the tab bar content node.
+     */
+    contentRect: ClientRect;
+  }
+
+  /**
+   * An object which holds layout data for a tab.
+   *
+   * #### Notes
+   * All values are measured along the layout axis of the tab bar.
+   */
+  export
+  interface ITabLayout {
+    /**
+     * The leading margin value for the tab.
+     */
+    margin: number;
+
+    /**
+     * The offset position of the tab.
+     */
+    pos: number;
+
+    /**
+     * The offset size of the tab.
+     */
+    size: number;
+
+    /**
+     * The offset position of the tab along the cross axis.
+     */
+    crossPos: number;
+
+    /**
+     * The offset size of the tab along the cross axis.
+     */
+    crossSize: number;
 
-    // Do nothing if a drag is in progress.
-    if (this._dragData) {
-      return;
-    }
+    /**
+     * The index of the row which holds the tab.
+     */
+    row: number;
 
-    // Do nothing if the click is not on a tab.
-    let x = event.clientX;
-    let y = event.clientY;
-    let i = arrays.findIndex(this._tabs, tab => hitTest(tab, x, y));
-    if (i < 0) {
-      return;
+    /**
+     * The offset position of the tab row along the cross axis.
+     */
+    rowPos: number;
+
+    /**
+     * The offset size of the tab row along the cross axis.
+     */
+    rowSize: number;
+  }
+
+  /**
+   * Get a snapshot of the current tab layout values.
+   */
+  export
+  function snapTabLayout(content: HTMLElement, tabs: HTMLElement[], orientation: Orientation, reversed: boolean): ITabLayout[] {
+    let horz = orientation === Orientation.Horizontal;
+    let layout = new Array<ITabLayout>(tabs.length);
+    for (let i = 0, n = tabs.length; i < n; ++i) {
+      let node = tabs[i];
+      let pos = tabPos(content, node, orientation, reversed);
+      let size = tabSize(node, orientation);
+      let crossPos = horz ? node.offsetTop : node.offsetLeft;
+      let crossSize = horz ? node.offsetHeight : node.offsetWidth;
+      let cstyle = window.getComputedStyle(node);
+      let lead = horz ? (reversed ? cstyle.marginRight : cstyle.marginLeft) : cstyle.marginTop;
+      let margin = parseInt(lead, 10) || 0;
+      layout[i] = { margin, pos, size, crossPos, crossSize, row: 0, rowPos: 0, rowSize: 0 };
     }
+    assignRows(layout);
+    return layout;
+  }
 
-    // Clicking on a tab stops the event propagation.
-    event.preventDefault();
-    event.stopPropagation();
+  /**
+   * Assign the row values of a tab layout snapshot.
+   *
+   * #### Notes
+   * A new row starts when a tab does not advance along the layout
+   * axis, or when it starts past the cross extent of the row. Tabs
+   * of different cross sizes may share a row, so the row bounds are
+   * the union of the bounds of its tabs.
+   */
+  function assignRows(layout: ITabLayout[]): void {
+    // Assign the row index of each tab.
+    let row = 0;
+    let rowEnd = 0;
+    for (let i = 0, n = layout.length; i < n; ++i) {
+      let tab = layout[i];
+      if (i > 0 && (tab.pos <= layout[i - 1].pos || tab.crossPos >= rowEnd)) {
+        row++;
+        rowEnd = 0;
+      }
+      tab.row = row;
+      rowEnd = Math.max(rowEnd, tab.crossPos + tab.crossSize);
+    }
 
-    // Ignore the click if the title is not closable.
-    let item = this._items[i];
-    if (!item.title.closable) {
-      return;
+    // Compute the cross bounds of each row.
+    let starts: number[] = [];
+    let ends: number[] = [];
+    for (let i = 0, n = layout.length; i < n; ++i) {
+      let tab = layout[i];
+      let end = tab.crossPos + tab.crossSize;
+      let k = tab.row;
+      starts[k] = k < starts.length ? Math.min(starts[k], tab.crossPos) : tab.crossPos;
+      ends[k] = k < ends.length ? Math.max(ends[k], end) : end;
     }
 
-    // Ignore the click if it was not on a close icon.
-    let constructor = this.constructor as typeof TabBar;
-    let icon = constructor.tabCloseIcon(this._tabs[i]);
-    if (!icon.contains(event.target as HTMLElement)) {
-      return;
+    // Assign the row bounds to each tab.
+    for (let i = 0, n = layout.length; i < n; ++i) {
+      let tab = layout[i];
+      tab.rowPos = starts[tab.row];
+      tab.rowSize = ends[tab.row] - starts[tab.row];
     }
+  }
 
-    // Emit the tab close requested signal.
-    this.tabCloseRequested.emit({ index: i, item });
+  /**
+   * Test if the event exceeds the drag detach threshold.
+   */
+  export
+  function detachExceeded(data: DragData, event: MouseEvent): boolean {
+    let rect = data.contentRect;
+    return (
+      (event.clientX < rect.left - DETACH_THRESHOLD) ||
+      (event.clientX >= rect.right + DETACH_THRESHOLD) ||
+      (event.clientY < rect.top - DETACH_THRESHOLD) ||
+      (event.clientY >= rect.bottom + DETACH_THRESHOLD)
+    );
   }
 
   /**
-   * Handle the `'mousedown'` event for the tab bar.
+   * Update the relative tab positions and computed target index.
    */
-  private _evtMouseDown(event: MouseEvent): void {
-    // Do nothing if it's not a left mouse press.
-    if (event.button !== 0) {
+  export
+  function layoutTabs(tabs: HTMLElement[], data: DragData, event: MouseEvent): void {
+    if (data.wrap) {
+      layoutWrappedTabs(tabs, data, event);
       return;
     }
-
-    // Do nothing if a drag is in progress.
-    if (this._dragData) {
+    if (data.group) {
+      layoutGroupTabs(tabs, data, event);
       return;
     }
+    let clientPos = localPos(data, event.clientX, event.clientY);
+    let pressPos = localPressPos(data);
+    let targetIndex = data.index;
+    let targetStart = clientPos + data.scrollPos - data.tabPressPos;
+    let targetEnd = targetStart + data.tabSize;
+    for (let i = 0, n = tabs.length; i < n; ++i) {
+      let layout = data.tabLayout[i];
+      let threshold = layout.pos + (layout.size >> 1);
+      if (i < data.index && targetStart < threshold) {
+        let offset = data.tabSize + data.tabLayout[i + 1].margin;
+        setTabOffset(tabs[i], data, offset);
+        targetIndex = Math.min(targetIndex, i);
+      } else if (i > data.index && targetEnd > threshold) {
+        let offset = -data.tabSize - layout.margin;
+        setTabOffset(tabs[i], data, offset);
+        targetIndex = Math.max(targetIndex, i);
+      } else if (i === data.index) {
+        let ideal = clientPos - pressPos;
+        let limit = data.scrollSize - (data.tabPos + data.tabSize);
+        setTabOffset(tabs[i], data, Math.max(-data.tabPos, Math.min(ideal, limit)));
+      } else {
+        clearTabOffset(tabs[i]);
+      }
+    }
+    data.targetIndex = targetIndex;
+  }
 
-    // Do nothing if the press is not on a tab.
-    let x = event.clientX;
-    let y = event.clientY;
-    let i = arrays.findIndex(this._tabs, tab => hitTest(tab, x, y));
-    if (i < 0) {
+  /**
+   * Position the dragged tabs at their final resting relative position.
+   */
+  export
+  function finalizeTabPosition(tabs: HTMLElement[], data: DragData): void {
+    if (data.group) {
+      let positions = arrangeGroup(data.tabLayout, data.group, data.targetIndex);
+      for (let i = 0, n = data.group.length; i < n; ++i) {
+        let k = data.group[i];
+        setTabOffset(tabs[k], data, positions[k] - data.tabLayout[k].pos);
+      }
       return;
     }
+    let ideal: number;
+    if (data.targetIndex === data.index) {
+      ideal = 0;
+    } else if (data.targetIndex > data.index) {
+      let tgt = data.tabLayout[data.targetIndex];
+      ideal = tgt.pos + tgt.size - data.tabSize - data.tabPos;
+    } else {
+      let tgt = data.tabLayout[data.targetIndex];
+      ideal = tgt.pos - data.tabPos;
+    }
+    let limit = data.scrollSize - (data.tabPos + data.tabSize);
+    let offset = Math.max(-data.tabPos, Math.min(ideal, limit));
+    let crossOffset = 0;
+    if (data.wrap && data.targetIndex !== data.index) {
+      let own = data.tabLayout[data.index];
+      let tgt = data.tabLayout[data.targetIndex];
+      crossOffset = tgt.rowPos - own.rowPos;
+    }
+    setTabOffset(data.tab, data, offset, crossOffset);
+  }
 
-    // Pressing on a tab stops the event propagation.
-    event.preventDefault();
-    event.stopPropagation();
+  /**
+   * Get the tab nodes which are moved by a drag.
+   */
+  export
+  function draggedTabs(tabs: HTMLElement[], data: DragData): HTMLElement[] {
+    return data.group ? data.group.map(i => tabs[i]) : [data.tab];
+  }
 
-    // Ignore the press if it was on a close icon.
-    let constructor = this.constructor as typeof TabBar;
-    let icon = constructor.tabCloseIcon(this._tabs[i]);
-    if (icon.contains(event.target as HTMLElement)) {
-      return;
+  /**
+   * Update the tab positions and target index for a group drag.
+   *
+   * #### Notes
+   * The group tabs follow the mouse as one block. Each other tab is
+   * placed before the block once the block passes its midpoint.
+   */
+  function layoutGroupTabs(tabs: HTMLElement[], data: DragData, event: MouseEvent): void {
+    let layout = data.tabLayout;
+    let group = data.group;
+    let first = group[0];
+    let last = group[group.length - 1];
+
+    // Compute the block position which follows the mouse.
+    let packed = arrangeGroup(layout, group, tabs.length - group.length);
+    let lead = arrangeGroup(layout, group, 0);
+    let pressOffset = packed[data.index] - packed[first];
+    let blockSize = packed[last] + layout[last].size - packed[first];
+    let clientPos = localPos(data, event.clientX, event.clientY);
+    let ideal = clientPos + data.scrollPos - data.tabPressPos - pressOffset;
+    let limit = data.scrollSize - blockSize;
+    let blockPos = Math.max(lead[first], Math.min(ideal, limit));
+
+    // Count the other tabs whose midpoint is before the block.
+    let targetIndex = 0;
+    for (let i = 0, n = tabs.length; i < n; ++i) {
+      if (group.indexOf(i) !== -1) {
+        continue;
+      }
+      let threshold = packed[i] + (layout[i].size >> 1);
+      if (blockPos >= threshold) targetIndex++;
     }
 
-    // Setup the drag data if the tabs are movable.
-    if (this._tabsMovable) {
-      this._dragData = new TabBarPrivate.DragData();
-      this._dragData.index = i;
-      this._dragData.tab = this._tabs[i];
-      this._dragData.pressX = event.clientX;
-      this._dragData.pressY = event.clientY;
-      document.addEventListener('mousemove', this, true);
-      document.addEventListener('mouseup', this, true);
-      document.addEventListener('keydown', this, true);
-      document.addEventListener('contextmenu', this, true);
+    // Position the block at the mouse and the other tabs around it.
+    let positions = arrangeGroup(layout, group, targetIndex);
+    for (let i = 0, n = tabs.length; i < n; ++i) {
+      if (group.indexOf(i) !== -1) {
+        let offset = blockPos + packed[i] - packed[first] - layout[i].pos;
+        setTabOffset(tabs[i], data, offset);
+      } else if (positions[i] !== layout[i].pos) {
+        setTabOffset(tabs[i], data, positions[i] - layout[i].pos);
+      } else {
+        clearTabOffset(tabs[i]);
+      }
     }
+    data.targetIndex = targetIndex;
+  }
 
-    // Update the current item to the pressed item.
-    this.currentItem = this._items[i];
+  /**
+   * Compute the tab positions with a group moved as a block.
+   *
+   * @param layout - The tab layout snapped at drag start.
+   *
+   * @param group - The indices of the group tabs, in tab order.
+   *
+   * @param index - The number of other tabs placed before the block.
+   *
+   * @returns The logical position of each tab, by original index.
+   */
+  function arrangeGroup(layout: ITabLayout[], group: number[], index: number): number[] {
+    let order: number[] = [];
+    for (let i = 0, n = layout.length; i < n; ++i) {
+      if (group.indexOf(i) === -1) order.push(i);
+    }
+    order.splice(index, 0, ...group);
+    let positions = new Array<number>(layout.length);
+    let pos = layout.length > 0 ? layout[0].pos - layout[0].margin : 0;
+    for (let i = 0, n = order.length; i < n; ++i) {
+      let k = order[i];
+      pos += layout[k].margin;
+      positions[k] = pos;
+      pos += layout[k].size;
+    }
+    return positions;
   }
 
   /**
-   * Handle the `'mousemove'` event for the tab bar.
+   * Apply a sizing policy to the given tabs.
+   *
+   * #### Notes
+   * The natural tab sizes are measured with the inline sizing styles
+   * removed, and the computed sizes are applied as flex basis values.
+   *
+   * The flex shrink factor is set inline from the policy, so that it
+   * overrides the overflow mode styles: only the shrink policy allows
+   * the tabs to shrink toward the minimum size.
    */
-  private _evtMouseMove(event: MouseEvent): void {
-    // Do nothing if no drag is in progress.
-    if (!this._dragData) {
+  export
+  function applyTabSizing(tabs: HTMLElement[], orientation: Orientation, sizing: TabSizing, min: number, max: number): void {
+    // Clear the inline sizing styles of the tabs.
+    for (let i = 0, n = tabs.length; i < n; ++i) {
+      let style = tabs[i].style;
+      style.flex = '';
+      style.minWidth = '';
+      style.maxWidth = '';
+      style.minHeight = '';
+      style.maxHeight = '';
+    }
+
+    // Bail early if the tabs use their natural size.
+    if (sizing === TabSizing.Natural || tabs.length === 0) {
       return;
     }
 
-    // Suppress the event during a drag.
-    event.preventDefault();
-    event.stopPropagation();
+    // Measure the natural size of the tabs along the layout axis.
+    let horz = orientation === Orientation.Horizontal;
+    let sizes = new Array<number>(tabs.length);
+    for (let i = 0, n = tabs.length; i < n; ++i) {
+      tabs[i].style.flex = '0 0 auto';
+    }
+    for (let i = 0, n = tabs.length; i < n; ++i) {
+      let size = horz ? tabs[i].offsetWidth : tabs[i].offsetHeight;
+      sizes[i] = Math.max(min, Math.min(size, max));
+    }
 
-    // Ensure the drag threshold is exceeded before moving the tab.
-    let data = this._dragData;
-    if (!data.dragActive) {
-      let dx = Math.abs(event.clientX - data.pressX);
-      let dy = Math.abs(event.clientY - data.pressY);
-      if (dx < DRAG_THRESHOLD && dy < DRAG_THRESHOLD) {
-        return;
+    // Use the largest size for every tab for the equal policy.
+    if (sizing === TabSizing.Equal) {
+      let size = Math.max.apply(Math, sizes);
+      for (let i = 0, n = sizes.length; i < n; ++i) {
+        sizes[i] = size;
       }
-
-      // Fill in the rest of the drag data measurements.
-      let tabRect = data.tab.getBoundingClientRect();
-      data.tabLeft = data.tab.offsetLeft;
-      data.tabWidth = tabRect.width;
-      data.tabPressX = data.pressX - tabRect.left;
-      data.tabLayout = TabBarPrivate.snapTabLayout(this._tabs);
-      data.contentRect = this.contentNode.getBoundingClientRect();
-      data.override = overrideCursor('default');
-
-      // Add the dragging classes and mark the drag as active.
-      data.tab.classList.add(DRAGGING_CLASS);
-      this.addClass(DRAGGING_CLASS);
-      data.dragActive = true;
     }
 
-    // Emit the detach request signal if the threshold is exceeded.
-    if (!data.detachRequested && TabBarPrivate.detachExceeded(data, event)) {
-      data.detachRequested = true;
-      let index = data.index;
-      let item = this._items[index];
-      let clientX = event.clientX;
-      let clientY = event.clientY;
-      this.tabDetachRequested.emit({ index, item, clientX, clientY });
-      if (data.dragAborted) {
-        return;
+    // Apply the computed sizes and limits to the tabs.
+    let prefix = sizing === TabSizing.Shrink ? '0 1 ' : '0 0 ';
+    let minText = `${min}px`;
+    let maxText = isFinite(max) ? `${max}px` : '';
+    for (let i = 0, n = tabs.length; i < n; ++i) {
+      let style = tabs[i].style;
+      style.flex = prefix + `${sizes[i]}px`;
+      if (horz) {
+        style.minWidth = minText;
+        style.maxWidth = maxText;
+      } else {
+        style.minHeight = minText;
+        style.maxHeight = maxText;
       }
     }
-
-    // Update the tab layout and computed target index.
-    TabBarPrivate.layoutTabs(this._tabs, data, event);
   }
 
   /**
-   * Handle the `'mouseup'` event for the tab bar.
+   * Remove the row ordering applied by [[arrangeRows]].
    */
-  private _evtMouseUp(event: MouseEvent): void {
-    // Do nothing if it's not a left mouse release.
-    if (event.button !== 0) {
-      return;
+  export
+  function resetRows(content: HTMLElement, tabs: HTMLElement[]): void {
+    for (let i = 0, n = tabs.length; i < n; ++i) {
+      tabs[i].style.order = '';
     }
-
-    // Do nothing if no drag is in progress.
-    if (!this._dragData) {
-      return;
+    let breaks = content.getElementsByClassName(ROW_BREAK_CLASS);
+    for (let i = breaks.length - 1; i >= 0; --i) {
+      content.removeChild(breaks[i]);
     }
+  }
 
-    // Suppress the event during a drag operation.
-    event.preventDefault();
-    event.stopPropagation();
-
-    // Remove the extra mouse event listeners.
-    document.removeEventListener('mousemove', this, true);
-    document.removeEventListener('mouseup', this, true);
-    document.removeEventListener('keydown', this, true);
-    document.removeEventListener('contextmenu', this, true);
+  /**
+   * Reorder the wrapped rows so the row of the current tab is last.
+   *
+   * #### Notes
+   * The rows are rotated so their cyclic order is preserved. A break
+   * node is inserted after each row to prevent the rows from merging.
+   */
+  export
+  function arrangeRows(content: HTMLElement, tabs: HTMLElement[], orientation: Orientation, reversed: boolean, current: number): void {
+    // Group the tab indices into rows based on the tab layout.
+    let layout = snapTabLayout(content, tabs, orientation, reversed);
+    let rows: number[][] = [];
+    for (let i = 0, n = layout.length; i < n; ++i) {
+      let row = layout[i].row;
+      if (row === rows.length) rows.push([]);
+      rows[row].push(i);
+    }
+    let currentRow = current !== -1 ? layout[current].row : -1;
 
-    // Bail early if the drag is not active.
-    let data = this._dragData;
-    if (!data.dragActive) {
-      this._dragData = null;
+    // Bail early if there is nothing to rotate.
+    let count = rows.length;
+    if (count < 2 || currentRow === -1 || currentRow === count - 1) {
       return;
     }
 
-    // Position the tab at its final resting position.
-    TabBarPrivate.finalizeTabPosition(data);
-
-    // Remove the dragging class from the tab so it can be transitioned.
-    data.tab.classList.remove(DRAGGING_CLASS);
-
-    // Complete the release on a timer to allow the tab to transition.
-    setTimeout(() => {
-      // Do nothing if the drag has been aborted.
-      if (data.dragAborted) {
-        return;
+    // Assign the flex order of each row and its trailing break node.
+    for (let k = 0; k < count; ++k) {
+      let visual = (k - currentRow - 1 + count) % count;
+      let row = rows[k];
+      for (let j = 0, m = row.length; j < m; ++j) {
+        tabs[row[j]].style.order = `${2 * visual}`;
       }
+      if (visual < count - 1) {
+        let node = document.createElement('li');
+        node.className = ROW_BREAK_CLASS;
+        node.setAttribute('role', 'presentation');
+        node.style.order = `${2 * visual + 1}`;
+        content.appendChild(node);
+      }
+    }
+  }
 
-      // Clear the drag data reference.
-      this._dragData = null;
-
-      // Reset the positions of the tabs.
-      TabBarPrivate.resetTabPositions(this._tabs);
-
-      // Clear the cursor grab and drag styles.
-      data.override.dispose();
-      this.removeClass(DRAGGING_CLASS);
-
-      // If the tab was not moved, there is nothing else to do.
-      let i = data.index;
-      let j = data.targetIndex;
-      if (j === -1 || i === j) {
-        return;
+  /**
+   * Update the tab positions and target index for wrapped tabs.
+   */
+  function layoutWrappedTabs(tabs: HTMLElement[], data: DragData, event: MouseEvent): void {
+    let horz = data.orientation === Orientation.Horizontal;
+    let rect = data.contentRect;
+    let clientPos = localPos(data, event.clientX, event.clientY);
+    let pressPos = localPressPos(data);
+    let clientCross = horz ? event.clientY : event.clientX;
+    let pressCross = horz ? data.pressY : data.pressX;
+    let mousePos = clientPos + data.scrollPos;
+    let mouseCross = clientCross - (horz ? rect.top : rect.left);
+    let crossSize = horz ? rect.height : rect.width;
+
+    // Use the tab under the mouse as the target, if any.
+    let targetIndex = data.targetIndex === -1 ? data.index : data.targetIndex;
+    for (let i = 0, n = tabs.length; i < n; ++i) {
+      let layout = data.tabLayout[i];
+      if (mousePos >= layout.pos && mousePos < layout.pos + layout.size &&
+          mouseCross >= layout.rowPos &&
+          mouseCross < layout.rowPos + layout.rowSize) {
+        targetIndex = i;
+        break;
       }
+    }
 
-      // Move the tab and related tab item to the new location.
-      arrays.move(this._tabs, i, j);
-      arrays.move(this._items, i, j);
-      this.contentNode.insertBefore(this._tabs[j], this._tabs[j + 1]);
-
-      // Emit the tab moved signal and schedule a render update.
-      this.tabMoved.emit({ fromIndex: i, toIndex: j, item: this._items[j] });
-      this.update();
-    }, TRANSITION_DURATION);
+    // Shift the tabs between the drag and target index by one slot.
+    for (let i = 0, n = tabs.length; i < n; ++i) {
+      let layout = data.tabLayout[i];
+      if (i === data.index) {
+        let ideal = clientPos - pressPos;
+        let limit = data.scrollSize - (layout.pos + layout.size);
+        let crossIdeal = clientCross - pressCross;
+        let crossLimit = crossSize - (layout.crossPos + layout.crossSize);
+        let offset = Math.max(-layout.pos, Math.min(ideal, limit));
+        let crossOffset = Math.max(-layout.crossPos, Math.min(crossIdeal, crossLimit));
+        setTabOffset(tabs[i], data, offset, crossOffset);
+      } else if (i >= targetIndex && i < data.index) {
+        let next = data.tabLayout[i + 1];
+        let offset = next.pos - layout.pos;
+        let crossOffset = next.rowPos - layout.rowPos;
+        setTabOffset(tabs[i], data, offset, crossOffset);
+      } else if (i <= targetIndex && i > data.index) {
+        let prev = data.tabLayout[i - 1];
+        let offset = prev.pos - layout.pos;
+        let crossOffset = prev.rowPos - layout.rowPos;
+        setTabOffset(tabs[i], data, offset, crossOffset);
+      } else {
+        clearTabOffset(tabs[i]);
+      }
+    }
+    data.targetIndex = targetIndex;
   }
 
   /**
-   * Release the mouse and restore the non-dragged tab positions.
+   * Compute the insertion index of a tab dropped at a position.
+   *
+   * #### Notes
+   * The tab is inserted before the first tab whose midpoint is after
+   * the mouse. For wrapped tabs, only the tabs on the row under the
+   * mouse are compared, and the rows after it precede the mouse.
    */
-  private _releaseMouse(): void {
-    // Do nothing if no drag is in progress.
-    if (!this._dragData) {
-      return;
+  export
+  function dropIndex(data: DropData, clientX: number, clientY: number): number {
+    let horz = data.orientation === Orientation.Horizontal;
+    let rect = data.contentRect;
+    let pos = localPos(data, clientX, clientY) + data.scrollPos;
+    let cross = horz ? clientY - rect.top : clientX - rect.left;
+    let layout = data.tabLayout;
+    for (let i = 0, n = layout.length; i < n; ++i) {
+      let tab = layout[i];
+      if (data.wrap && tab.rowPos > cross) {
+        return i;
+      }
+      if (data.wrap && tab.rowPos + tab.rowSize <= cross) {
+        continue;
+      }
+      if (pos < tab.pos + (tab.size >> 1)) {
+        return i;
+      }
     }
+    return layout.length;
+  }
 
-    // Remove the extra mouse listeners.
-    document.removeEventListener('mousemove', this, true);
-    document.removeEventListener('mouseup', this, true);
-    document.removeEventListener('keydown', this, true);
-    document.removeEventListener('contextmenu', this, true);
-
-    // Clear the drag data reference.
-    let data = this._dragData;
-    this._dragData = null;
+  /**
+   * Shift the tabs after the drop index to show the insertion gap.
+   *
+   * #### Notes
+   * For wrapped tabs, only the tabs on the row of the drop index are
+   * shifted.
+   */
+  export
+  function layoutDropGap(tabs: HTMLElement[], data: DropData): void {
+    let layout = data.tabLayout;
+    let row = data.index < layout.length ? layout[data.index].row : -1;
+    for (let i = 0, n = tabs.length; i < n; ++i) {
+      if (i >= data.index && (!data.wrap || layout[i].row === row)) {
+        setTabOffset(tabs[i], data, data.size);
+      } else {
+        clearTabOffset(tabs[i]);
+      }
+    }
+  }
 
-    // Indicate the drag has been aborted. This allows the mouse
-    // event handlers to return early when the drag is canceled.
-    data.dragAborted = true;
+  /**
+   * Show the drag image of a tab at the mouse position.
+   *
+   * #### Notes
+   * The dragged tab is clipped by its own tab bar, so a copy of the
+   * tab follows the mouse over a connected tab bar instead, and the
+   * dragged tab is hidden in place.
+   */
+  export
+  function showDragImage(data: DragData, clientX: number, clientY: number): void {
+    let image = data.dragImage;
+    if (!image) {
+      image = data.tab.cloneNode(true) as HTMLElement;
+      image.removeAttribute('id');
+      image.setAttribute('aria-hidden', 'true');
+      image.classList.add(DRAG_IMAGE_CLASS);
+      image.style.width = `${data.tabRect.width}px`;
+      image.style.height = `${data.tabRect.height}px`;
+      document.body.appendChild(image);
+      data.tab.style.visibility = 'hidden';
+      data.dragImage = image;
+    }
+    image.style.left = `${clientX - data.pressX + data.tabRect.left}px`;
+    image.style.top = `${clientY - data.pressY + data.tabRect.top}px`;
+  }
 
-    // If the drag is not active, there's nothing more to do.
-    if (!data.dragActive) {
+  /**
+   * Remove the drag image of a tab and show the dragged tab again.
+   */
+  export
+  function hideDragImage(data: DragData): void {
+    if (!data.dragImage) {
       return;
     }
-
-    // Reset the tabs to their non-dragged positions.
-    TabBarPrivate.resetTabPositions(this._tabs);
-
-    // Clear the cursor override and extra styling classes.
-    data.override.dispose();
-    data.tab.classList.remove(DRAGGING_CLASS);
-    this.removeClass(DRAGGING_CLASS);
+    document.body.removeChild(data.dragImage);
+    data.dragImage = null;
+    data.tab.style.visibility = '';
   }
 
   /**
-   * Handle the `changed` signal of a title object.
+   * Reset the relative positions of the given tabs.
    */
-  private _onTitleChanged(sender: Title): void {
-    this._dirtySet.add(sender);
-    this.update();
+  export
+  function resetTabPositions(tabs: HTMLElement[]): void {
+    for (let i = 0, n = tabs.length; i < n; ++i) {
+      clearTabOffset(tabs[i]);
+    }
   }
 
-  private _tabsMovable = false;
-  private _items: ITabItem[] = [];
-  private _tabs: HTMLElement[] = [];
-  private _dirtySet = new Set<Title>();
-  private _currentItem: ITabItem = null;
-  private _dragData: TabBarPrivate.DragData = null;
-}
-
-
-/**
- * The namespace for the `TabBar` class private data.
- */
-namespace TabBarPrivate {
   /**
-   * A signal emitted when the current tab item is changed.
+   * Get the logical position of a tab along the layout axis.
+   *
+   * #### Notes
+   * For a reversed horizontal layout, the position is measured from
+   * the right edge of the content node.
    */
   export
-  const currentChangedSignal = new Signal<TabBar, ITabIndexArgs>();
+  function tabPos(content: HTMLElement, tab: HTMLElement, orientation: Orientation, reversed: boolean): number {
+    if (orientation === Orientation.Vertical) {
+      return tab.offsetTop;
+    }
+    if (!reversed) {
+      return tab.offsetLeft;
+    }
+    return content.clientWidth - (tab.offsetLeft + tab.offsetWidth);
+  }
 
   /**
-   * A signal emitted when a tab is moved by the user.
+   * Get the size of a tab along the layout axis.
    */
   export
-  const tabMovedSignal = new Signal<TabBar, ITabMovedArgs>();
+  function tabSize(tab: HTMLElement, orientation: Orientation): number {
+    let horz = orientation === Orientation.Horizontal;
+    return horz ? tab.offsetWidth : tab.offsetHeight;
+  }
 
   /**
-   * A signal emitted when the user clicks a tab's close icon.
+   * Get the logical scroll position of a content node.
    */
   export
-  const tabCloseRequestedSignal = new Signal<TabBar, ITabIndexArgs>();
+  function scrollPos(content: HTMLElement, orientation: Orientation, reversed: boolean): number {
+    if (orientation === Orientation.Vertical) {
+      return content.scrollTop;
+    }
+    return reversed ? Math.abs(content.scrollLeft) : content.scrollLeft;
+  }
 
   /**
-   * A signal emitted when a tab is dragged beyond the detach threshold.
+   * Set the logical scroll position of a content node.
    */
   export
-  const tabDetachRequestedSignal = new Signal<TabBar, ITabDetachArgs>();
+  function setScrollPos(content: HTMLElement, orientation: Orientation, reversed: boolean, pos: number): void {
+    if (orientation === Orientation.Vertical) {
+      content.scrollTop = pos;
+    } else {
+      content.scrollLeft = reversed ? -pos : pos;
+    }
+  }
 
   /**
-   * A struct which holds the drag data for a tab bar.
+   * Get the scroll size of a content node along the layout axis.
    */
   export
-  class DragData {
-    /**
-     * The tab node being dragged.
-     */
-    tab: HTMLElement = null;
-
-    /**
-     * The index of the tab being dragged.
-     */
-    index = -1;
-
-    /**
-     * The offset left of the tab being dragged.
-     */
-    tabLeft = -1;
-
-    /**
-     * The offset width of the tab being dragged.
-     */
-    tabWidth = -1;
-
-    /**
-     * The original mouse X position in tab coordinates.
-     */
-    tabPressX = -1;
-
-    /**
-     * The tab target index upon mouse release.
-     */
-    targetIndex = -1;
-
-    /**
-     * The array of tab layout objects snapped at drag start.
-     */
-    tabLayout: ITabLayout[] = null;
-
-    /**
-     * The mouse press client X position.
-     */
-    pressX = -1;
-
-    /**
-     * The mouse press client Y position.
-     */
-    pressY = -1;
-
-    /**
-     * The bounding client rect of the tab bar content node.
-     */
-    contentRect: ClientRect = null;
-
-    /**
-     * The disposable to clean up the cursor override.
-     */
-    override: IDisposable = null;
-
-    /**
-     * Whether the drag is currently active.
-     */
-    dragActive = false;
-
-    /**
-     * Whether the drag has been aborted.
-     */
-    dragAborted = false;
-
-    /**
-     * Whether a detach request as been made.
-     */
-    detachRequested = false;
+  function scrollSize(content: HTMLElement, orientation: Orientation): number {
+    let horz = orientation === Orientation.Horizontal;
+    return horz ? content.scrollWidth : content.scrollHeight;
   }
 
   /**
-   * An object which holds layout data for a tab.
+   * Get the client size of a content node along the layout axis.
    */
   export
-  interface ITabLayout {
-    /**
-     * The left margin value for the tab.
-     */
-    margin: number;
-
-    /**
-     * The offset left position of the tab.
-     */
-    left: number;
-
-    /**
-     * The offset width of the tab.
-     */
-    width: number;
+  function clientSize(content: HTMLElement, orientation: Orientation): number {
+    let horz = orientation === Orientation.Horizontal;
+    return horz ? content.clientWidth : content.clientHeight;
   }
 
   /**
-   * Get a snapshot of the current tab layout values.
+   * Scroll a content node so the given tab is fully visible.
    */
   export
-  function snapTabLayout(tabs: HTMLElement[]): ITabLayout[] {
-    let layout = new Array<ITabLayout>(tabs.length);
-    for (let i = 0, n = tabs.length; i < n; ++i) {
-      let node = tabs[i];
-      let left = node.offsetLeft;
-      let width = node.offsetWidth;
-      let cstyle = window.getComputedStyle(node);
-      let margin = parseInt(cstyle.marginLeft, 10) || 0;
-      layout[i] = { margin, left, width };
+  function scrollIntoView(content: HTMLElement, tab: HTMLElement, orientation: Orientation, reversed: boolean): void {
+    let pos = tabPos(content, tab, orientation, reversed);
+    let size = tabSize(tab, orientation);
+    let start = scrollPos(content, orientation, reversed);
+    let extent = clientSize(content, orientation);
+    if (pos < start) {
+      setScrollPos(content, orientation, reversed, pos);
+    } else if (pos + size > start + extent) {
+      setScrollPos(content, orientation, reversed, pos + size - extent);
     }
-    return layout;
   }
 
   /**
-   * Test if the event exceeds the drag detach threshold.
+   * Scroll a content node by one tab in the given direction.
+   *
+   * #### Notes
+   * This scrolls until the first tab which is clipped in the given
+   * direction is fully visible.
    */
   export
-  function detachExceeded(data: DragData, event: MouseEvent): boolean {
-    let rect = data.contentRect;
-    return (
-      (event.clientX < rect.left - DETACH_THRESHOLD) ||
-      (event.clientX >= rect.right + DETACH_THRESHOLD) ||
-      (event.clientY < rect.top - DETACH_THRESHOLD) ||
-      (event.clientY >= rect.bottom + DETACH_THRESHOLD)
-    );
+  function scrollStep(content: HTMLElement, tabs: HTMLElement[], orientation: Orientation, reversed: boolean, forward: boolean): void {
+    let start = scrollPos(content, orientation, reversed);
+    let extent = clientSize(content, orientation);
+    if (forward) {
+      for (let i = 0, n = tabs.length; i < n; ++i) {
+        let pos = tabPos(content, tabs[i], orientation, reversed);
+        let size = tabSize(tabs[i], orientation);
+        if (pos + size > start + extent) {
+          setScrollPos(content, orientation, reversed, pos + size - extent);
+          return;
+        }
+      }
+    } else {
+      for (let i = tabs.length - 1; i >= 0; --i) {
+        let pos = tabPos(content, tabs[i], orientation, reversed);
+        if (pos < start) {
+          setScrollPos(content, orientation, reversed, pos);
+          return;
+        }
+      }
+    }
   }
 
   /**
-   * Update the relative tab positions and computed target index.
+   * Find the indices of the tabs which are not fully visible.
    */
   export
-  function layoutTabs(tabs: HTMLElement[], data: DragData, event: MouseEvent): void {
-    let targetIndex = data.index;
-    let targetLeft = event.clientX - data.contentRect.left - data.tabPressX;
-    let targetRight = targetLeft + data.tabWidth;
+  function findClippedTabs(content: HTMLElement, tabs: HTMLElement[], orientation: Orientation, reversed: boolean): number[] {
+    let start = scrollPos(content, orientation, reversed);
+    let extent = clientSize(content, orientation);
+    let result: number[] = [];
     for (let i = 0, n = tabs.length; i < n; ++i) {
-      let style = tabs[i].style;
-      let layout = data.tabLayout[i];
-      let threshold = layout.left + (layout.width >> 1);
-      if (i < data.index && targetLeft < threshold) {
-        style.left = data.tabWidth + data.tabLayout[i + 1].margin + 'px';
-        targetIndex = Math.min(targetIndex, i);
-      } else if (i > data.index && targetRight > threshold) {
-        style.left = -data.tabWidth - layout.margin + 'px';
-        targetIndex = Math.max(targetIndex, i);
-      } else if (i === data.index) {
-        let ideal = event.clientX - data.pressX;
-        let limit = data.contentRect.width - (data.tabLeft + data.tabWidth);
-        style.left = Math.max(-data.tabLeft, Math.min(ideal, limit)) + 'px';
-      } else {
-        style.left = '';
+      let pos = tabPos(content, tabs[i], orientation, reversed);
+      let size = tabSize(tabs[i], orientation);
+      if (pos < start || pos + size > start + extent) {
+        result.push(i);
       }
     }
-    data.targetIndex = targetIndex;
+    return result;
   }
 
   /**
-   * Position the drag tab at its final resting relative position.
+   * Get the logical mouse press position relative to the content node.
    */
   export
-  function finalizeTabPosition(data: DragData): void {
-    let ideal: number;
-    if (data.targetIndex === data.index) {
-      ideal = 0;
-    } else if (data.targetIndex > data.index) {
-      let tgt = data.tabLayout[data.targetIndex];
-      ideal = tgt.left + tgt.width - data.tabWidth - data.tabLeft;
+  function localPressPos(data: DragData): number {
+    return localPos(data, data.pressX, data.pressY);
+  }
+
+  /**
+   * Get the logical mouse position relative to the content node.
+   *
+   * #### Notes
+   * The position is measured along the layout axis from the leading
+   * edge of the content node, ignoring the content scroll position.
+   */
+  function localPos(data: IAxisData, clientX: number, clientY: number): number {
+    let rect = data.contentRect;
+    if (data.orientation === Orientation.Vertical) {
+      return clientY - rect.top;
+    }
+    return data.reversed ? rect.right - clientX : clientX - rect.left;
+  }
+
+  /**
+   * Set the relative offset of a tab along the layout and cross axes.
+   *
+   * #### Notes
+   * The layout offset is a logical value which is flipped for a
+   * reversed horizontal layout.
+   */
+  function setTabOffset(tab: HTMLElement, data: IAxisData, offset: number, crossOffset = 0): void {
+    let style = tab.style;
+    if (data.orientation === Orientation.Horizontal) {
+      style.left = `${data.reversed ? -offset : offset}px`;
+      style.top = crossOffset ? `${crossOffset}px` : '';
     } else {
-      let tgt = data.tabLayout[data.targetIndex];
-      ideal = tgt.left - data.tabLeft;
+      style.top = `${offset}px`;
+      style.left = crossOffset ? `${crossOffset}px` : '';
     }
-    let style = data.tab.style;
-    let limit = data.contentRect.width - (data.tabLeft + data.tabWidth);
-    style.left = Math.max(-data.tabLeft, Math.min(ideal, limit)) + 'px';
   }
 
   /**
-   * Reset the relative positions of the given tabs.
+   * Clear the relative offset of a tab.
+   */
+  function clearTabOffset(tab: HTMLElement): void {
+    tab.style.left = '';
+    tab.style.top = '';
+  }
+
+  /**
+   * The property descriptor for the title caption.
    */
   export
-  function resetTabPositions(tabs: HTMLElement[]): void {
-    for (let i = 0, n = tabs.length; i < n; ++i) {
-      tabs[i].style.left = '';
+  const captionProperty = new Property<Title, string>({
+    name: 'caption',
+    value: '',
+    changed: onCaptionChanged,
+  });
+
+  /**
+   * Define the caption accessors on the title prototype.
+   *
+   * #### Notes
+   * This is a no-op if the title class already defines a caption.
+   */
+  export
+  function defineCaption(): void {
+    if ('caption' in Title.prototype) {
+      return;
     }
+    Object.defineProperty(Title.prototype, 'caption', {
+      get: function() { return captionProperty.get(this); },
+      set: function(value: string) { captionProperty.set(this, value); },
+      enumerable: true,
+      configurable: true,
+    });
+  }
+
+  /**
+   * The change handler for the title caption property.
+   */
+  function onCaptionChanged(owner: Title, oldValue: string, newValue: string): void {
+    owner.changed.emit({ name: 'caption', oldValue, newValue });
   }
 }
+
+
+// Add the caption to the title class of the widget package.
+TabBarPrivate.defineCaption();
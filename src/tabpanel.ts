@@ -11,6 +11,14 @@ import {
   BoxLayout
 } from 'phosphor-boxpanel';
 
+import {
+  Message
+} from 'phosphor-messaging';
+
+import {
+  ISignal, Signal
+} from 'phosphor-signaling';
+
 import {
   StackedPanel
 } from 'phosphor-stackedpanel';
@@ -20,7 +28,8 @@ import {
 } from 'phosphor-widget';
 
 import {
-  ITabIndexArgs, ITabMovedArgs, TabBar
+  ICurrentAboutToChangeArgs, ITabContextMenuArgs, ITabDropArgs, ITabIndexArgs,
+  ITabMovedArgs, Orientation, TabBar
 } from './tabbar';
 
 
@@ -39,13 +48,155 @@ const TAB_BAR_CLASS = 'p-TabPanel-tabBar';
  */
 const STACKED_PANEL_CLASS = 'p-TabPanel-stackedPanel';
 
+/**
+ * The class name added to a tab panel with the tab bar on top.
+ */
+const TOP_CLASS = 'p-mod-top';
+
+/**
+ * The class name added to a tab panel with the tab bar on the bottom.
+ */
+const BOTTOM_CLASS = 'p-mod-bottom';
+
+/**
+ * The class name added to a tab panel with the tab bar on the left.
+ */
+const LEFT_CLASS = 'p-mod-left';
+
+/**
+ * The class name added to a tab panel with the tab bar on the right.
+ */
+const RIGHT_CLASS = 'p-mod-right';
+
+/**
+ * The class name added to the tab switcher overlay.
+ */
+const SWITCHER_CLASS = 'p-TabPanel-switcher';
+
+/**
+ * The class name added to a tab switcher item.
+ */
+const SWITCHER_ITEM_CLASS = 'p-TabPanel-switcherItem';
+
+/**
+ * The class name added to a tab switcher item icon.
+ */
+const SWITCHER_ICON_CLASS = 'p-TabPanel-switcherItemIcon';
+
+/**
+ * The class name added to a tab switcher item text.
+ */
+const SWITCHER_TEXT_CLASS = 'p-TabPanel-switcherItemText';
+
+/**
+ * The class name added to the tab context menu.
+ */
+const CONTEXT_MENU_CLASS = 'p-TabPanel-contextMenu';
+
+/**
+ * The class name added to a tab context menu item.
+ */
+const CONTEXT_MENU_ITEM_CLASS = 'p-TabPanel-contextMenuItem';
+
+/**
+ * The class name added to a disabled tab context menu item.
+ */
+const DISABLED_CLASS = 'p-mod-disabled';
+
+/**
+ * The class name added to the highlighted tab switcher item.
+ */
+const CURRENT_CLASS = 'p-mod-current';
+
+
+/**
+ * The placement of the tab bar relative to the content area.
+ */
+export
+enum TabPlacement {
+  /**
+   * The tab bar is placed above the content area.
+   */
+  Top,
+
+  /**
+   * The tab bar is placed below the content area.
+   */
+  Bottom,
+
+  /**
+   * The tab bar is placed to the left of the content area.
+   */
+  Left,
+
+  /**
+   * The tab bar is placed to the right of the content area.
+   */
+  Right,
+}
+
+
+/**
+ * An object which resolves a value asynchronously.
+ *
+ * #### Notes
+ * This is compatible with ES6 promises and other thenables.
+ */
+export
+interface IThenable<T> {
+  /**
+   * Attach callbacks for the resolution or rejection of the value.
+   */
+  then<U>(onFulfilled?: (value: T) => U | IThenable<U>, onRejected?: (error: any) => U | IThenable<U>): IThenable<U>;
+}
+
+
+/**
+ * A function which decides whether a widget may be closed.
+ *
+ * @param widget - The widget whose tab close was requested.
+ *
+ * @returns `true` if the widget may be closed, `false` otherwise, or
+ *   a thenable which resolves to one of those values. Any result other
+ *   than `false` allows the close.
+ */
+export
+type CloseGuard = (widget: Widget) => boolean | IThenable<boolean>;
+
+
+/**
+ * The labels of the built-in tab context menu commands.
+ */
+export
+interface ITabContextMenuLabels {
+  /**
+   * The label of the command which closes the clicked tab.
+   */
+  close: string;
+
+  /**
+   * The label of the command which closes the other tabs.
+   */
+  closeOthers: string;
+
+  /**
+   * The label of the command which closes the tabs after the clicked tab.
+   */
+  closeToRight: string;
+
+  /**
+   * The label of the command which closes all tabs.
+   */
+  closeAll: string;
+}
+
 
 /**
  * A widget which combines a `TabBar` and a `StackedPanel`.
  *
  * #### Notes
  * This is a simple panel which handles the common case of a tab bar
- * placed above a content area. The selected tab controls the widget
+ * placed alongside a content area. The selected tab controls the widget
  * which is shown in the content area.
  *
  * For use cases which require more control than is provided by this
@@ -87,6 +238,7 @@ class TabPanel extends Widget {
   constructor() {
     super();
     this.addClass(TAB_PANEL_CLASS);
+    this.addClass(TOP_CLASS);
 
     let constructor = this.constructor as typeof TabPanel;
     this._tabBar = constructor.createTabBar();
@@ -94,7 +246,13 @@ class TabPanel extends Widget {
 
     this._tabBar.tabMoved.connect(this._onTabMoved, this);
     this._tabBar.currentChanged.connect(this._onCurrentChanged, this);
+    this._tabBar.currentAboutToChange.connect(this._onCurrentAboutToChange, this);
+    this._tabBar.itemInserted.connect(this._onItemInserted, this);
+    this._tabBar.itemRemoved.connect(this._onItemRemoved, this);
+    this._tabBar.itemMoved.connect(this._onItemMoved, this);
     this._tabBar.tabCloseRequested.connect(this._onTabCloseRequested, this);
+    this._tabBar.tabContextMenuRequested.connect(this._onTabContextMenuRequested, this);
+    this._tabBar.tabDropped.connect(this._onTabDropped, this);
     this._stackedPanel.widgetRemoved.connect(this._onWidgetRemoved, this);
 
     let layout = new BoxLayout();
@@ -117,9 +275,58 @@ class TabPanel extends Widget {
     this._tabBar = null;
     this._stackedPanel = null;
     this._currentWidget = null;
+    this._closeSwitcher();
+    this._closeContextMenu();
+    this._closing.clear();
+    this._focusMap.clear();
     super.dispose();
   }
 
+  /**
+   * A signal emitted when the current widget is about to change.
+   *
+   * #### Notes
+   * The args are forwarded from the `currentAboutToChange` signal of
+   * the tab bar, and a handler may set the `cancel` flag to veto the
+   * change. The `fromItem` and `toItem` of the args are widgets.
+   */
+  get currentAboutToChange(): ISignal<TabPanel, ICurrentAboutToChangeArgs> {
+    return TabPanelPrivate.currentAboutToChangeSignal.bind(this);
+  }
+
+  /**
+   * A signal emitted when a child widget is inserted.
+   *
+   * #### Notes
+   * The args are forwarded from the `itemInserted` signal of the tab
+   * bar, and the `item` of the args is the widget.
+   */
+  get widgetInserted(): ISignal<TabPanel, ITabIndexArgs> {
+    return TabPanelPrivate.widgetInsertedSignal.bind(this);
+  }
+
+  /**
+   * A signal emitted when a child widget is removed.
+   *
+   * #### Notes
+   * The args are forwarded from the `itemRemoved` signal of the tab
+   * bar, and the `item` of the args is the widget.
+   */
+  get widgetRemoved(): ISignal<TabPanel, ITabIndexArgs> {
+    return TabPanelPrivate.widgetRemovedSignal.bind(this);
+  }
+
+  /**
+   * A signal emitted when a child widget is moved.
+   *
+   * #### Notes
+   * The args are forwarded from the `itemMoved` signal of the tab
+   * bar, and the `item` of the args is the widget.
+   */
+  get widgetMoved(): ISignal<TabPanel, ITabMovedArgs> {
+    return TabPanelPrivate.widgetMovedSignal.bind(this);
+  }
+
   /**
    * Get the currently selected widget.
    */
@@ -129,6 +336,10 @@ class TabPanel extends Widget {
 
   /**
    * Set the currently selected widget.
+   *
+   * #### Notes
+   * The change is a no-op if it is canceled by a handler of the
+   * `currentAboutToChange` signal.
    */
   set currentWidget(value: Widget) {
     this._tabBar.currentItem = value;
@@ -148,6 +359,170 @@ class TabPanel extends Widget {
     this._tabBar.tabsMovable = value;
   }
 
+  /**
+   * Get whether the built-in tab context menu is enabled.
+   *
+   * #### Notes
+   * When enabled, a context menu request on a tab shows a menu with
+   * the `Close`, `Close Others`, `Close to the Right`, and `Close All`
+   * commands. The commands only apply to closable tabs, and each close
+   * is subject to the [[closeGuard]].
+   *
+   * The default value is `false`.
+   */
+  get contextMenuEnabled(): boolean {
+    return this._contextMenuEnabled;
+  }
+
+  /**
+   * Set whether the built-in tab context menu is enabled.
+   */
+  set contextMenuEnabled(value: boolean) {
+    this._contextMenuEnabled = value;
+    if (!value) this._closeContextMenu();
+  }
+
+  /**
+   * Get the labels of the built-in tab context menu commands.
+   *
+   * #### Notes
+   * This returns a copy of the current labels.
+   */
+  get contextMenuLabels(): ITabContextMenuLabels {
+    return TabPanelPrivate.copyContextMenuLabels(this._contextMenuLabels);
+  }
+
+  /**
+   * Set the labels of the built-in tab context menu commands.
+   *
+   * #### Notes
+   * This can be used to provide localized labels. The new labels are
+   * used the next time the context menu is opened.
+   */
+  set contextMenuLabels(value: ITabContextMenuLabels) {
+    this._contextMenuLabels = TabPanelPrivate.copyContextMenuLabels(value);
+  }
+
+  /**
+   * Get the guard which decides whether a widget may be closed.
+   *
+   * #### Notes
+   * The guard is invoked when the user requests to close a tab. The
+   * close is canceled if the guard returns `false`, or a thenable which
+   * resolves to `false` or is rejected. Any other result closes the
+   * widget.
+   *
+   * While a returned thenable is pending, the tab is marked with the
+   * `p-mod-closing` class and further close requests are ignored.
+   *
+   * The default value is `null`, which closes widgets immediately.
+   */
+  get closeGuard(): CloseGuard {
+    return this._closeGuard;
+  }
+
+  /**
+   * Set the guard which decides whether a widget may be closed.
+   */
+  set closeGuard(value: CloseGuard) {
+    this._closeGuard = value || null;
+  }
+
+  /**
+   * Get the name of the group of connected tab panels.
+   *
+   * #### Notes
+   * Tabs can be dragged between the tab bars of the tab panels with
+   * the same non-empty group name. The dropped widget is moved to the
+   * stacked panel of the target tab panel and made current.
+   *
+   * A tab panel rejects the tabs dropped from a plain tab bar in the
+   * same group. A widget whose tab is dropped on a plain tab bar is
+   * removed from the tab panel.
+   *
+   * The default value is `''`, which does not connect the tab panel.
+   */
+  get connectionGroup(): string {
+    return this._tabBar.connectionGroup;
+  }
+
+  /**
+   * Set the name of the group of connected tab panels.
+   */
+  set connectionGroup(value: string) {
+    this._tabBar.connectionGroup = value;
+  }
+
+  /**
+   * Get whether the keyboard focus is restored when switching tabs.
+   *
+   * #### Notes
+   * When enabled and the focus is inside the current widget, switching
+   * tabs moves the focus to the element which was last focused in the
+   * new widget. If there is no such element, the new widget is focused
+   * if it is focusable, otherwise its tab is focused.
+   *
+   * The default value is `true`.
+   */
+  get restoreFocus(): boolean {
+    return this._restoreFocus;
+  }
+
+  /**
+   * Set whether the keyboard focus is restored when switching tabs.
+   */
+  set restoreFocus(value: boolean) {
+    this._restoreFocus = value;
+  }
+
+  /**
+   * Get whether the `Ctrl+Tab` tab switcher is enabled.
+   *
+   * #### Notes
+   * When enabled and the focus is inside the tab panel, holding `Ctrl`
+   * and pressing `Tab` shows an overlay which lists the child widgets
+   * in most recently used order. Each `Tab` press highlights the next
+   * widget, `Shift+Tab` highlights the previous widget, and releasing
+   * `Ctrl` makes the highlighted widget current. `Escape` cancels.
+   *
+   * The default value is `false`.
+   */
+  get switcherEnabled(): boolean {
+    return this._switcherEnabled;
+  }
+
+  /**
+   * Set whether the `Ctrl+Tab` tab switcher is enabled.
+   */
+  set switcherEnabled(value: boolean) {
+    this._switcherEnabled = value;
+    if (!value) this._closeSwitcher();
+  }
+
+  /**
+   * Get the placement of the tab bar relative to the content area.
+   *
+   * #### Notes
+   * The default value is `TabPlacement.Top`.
+   */
+  get tabPlacement(): TabPlacement {
+    return this._tabPlacement;
+  }
+
+  /**
+   * Set the placement of the tab bar relative to the content area.
+   *
+   * #### Notes
+   * The orientation of the tab bar is updated to match the placement.
+   */
+  set tabPlacement(value: TabPlacement) {
+    if (this._tabPlacement === value) {
+      return;
+    }
+    this._tabPlacement = value;
+    TabPanelPrivate.applyPlacement(this, value);
+  }
+
   /**
    * Get the tab bar associated with the tab panel.
    *
@@ -238,6 +613,127 @@ class TabPanel extends Widget {
     if (child !== this._currentWidget) child.hide();
     this._stackedPanel.insertChild(index, child);
     this._tabBar.insertItem(index, child);
+    let tab = this._tabBar.tabAt(this._tabBar.itemIndex(child));
+    TabPanelPrivate.linkTab(tab, child);
+  }
+
+  /**
+   * Handle the DOM events for the tab panel.
+   *
+   * @param event - The DOM event sent to the tab panel.
+   *
+   * #### Notes
+   * This method implements the DOM `EventListener` interface and is
+   * called in response to events on the tab panel's DOM node. It should
+   * not be called directly by user code.
+   */
+  handleEvent(event: Event): void {
+    switch (event.type) {
+    case 'focus':
+      this._evtFocus(event as FocusEvent);
+      break;
+    case 'keydown':
+      this._evtKeyDown(event as KeyboardEvent);
+      break;
+    }
+  }
+
+  /**
+   * A message handler invoked on an `'after-attach'` message.
+   */
+  protected onAfterAttach(msg: Message): void {
+    this.node.addEventListener('focus', this, true);
+    this.node.addEventListener('keydown', this);
+  }
+
+  /**
+   * A message handler invoked on a `'before-detach'` message.
+   */
+  protected onBeforeDetach(msg: Message): void {
+    this.node.removeEventListener('focus', this, true);
+    this.node.removeEventListener('keydown', this);
+    this._closeSwitcher();
+    this._closeContextMenu();
+  }
+
+  /**
+   * Handle the `'focus'` event for the tab panel.
+   */
+  private _evtFocus(event: FocusEvent): void {
+    // Remember the focused element of the child widget.
+    let target = event.target as HTMLElement;
+    let widget = this._currentWidget;
+    if (widget && widget.node.contains(target)) {
+      this._focusMap.set(widget, target);
+    }
+  }
+
+  /**
+   * Handle the `'keydown'` event for the tab panel.
+   */
+  private _evtKeyDown(event: KeyboardEvent): void {
+    // Open the tab switcher on `Ctrl+Tab` or `Ctrl+Shift+Tab`.
+    if (!this._switcherEnabled || this._switcher) {
+      return;
+    }
+    if (event.keyCode !== 9 || !event.ctrlKey) {
+      return;
+    }
+    if (event.altKey || event.metaKey) {
+      return;
+    }
+    let widgets = TabPanelPrivate.recentWidgets(this._tabBar);
+    if (widgets.length === 0) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    let n = widgets.length;
+    let index = event.shiftKey ? n - 1 : Math.min(1, n - 1);
+    let switcher = new TabPanelPrivate.TabSwitcher(widgets, index);
+    switcher.selected = widget => { this.currentWidget = widget; };
+    switcher.closed = () => { this._switcher = null; };
+    this._switcher = switcher;
+    switcher.open(this.node);
+  }
+
+  /**
+   * Close the tab switcher without changing the current widget.
+   */
+  private _closeSwitcher(): void {
+    if (this._switcher) this._switcher.close();
+  }
+
+  /**
+   * Handle the `currentAboutToChange` signal from the tab bar.
+   */
+  private _onCurrentAboutToChange(sender: TabBar, args: ICurrentAboutToChangeArgs): void {
+    this.currentAboutToChange.emit(args);
+  }
+
+  /**
+   * Handle the `itemInserted` signal from the tab bar.
+   */
+  private _onItemInserted(sender: TabBar, args: ITabIndexArgs): void {
+    this.widgetInserted.emit(args);
+  }
+
+  /**
+   * Handle the `itemRemoved` signal from the tab bar.
+   */
+  private _onItemRemoved(sender: TabBar, args: ITabIndexArgs): void {
+    // Release a widget whose tab was removed from the tab bar directly,
+    // such as by a drop on a plain tab bar, so the panels stay in sync.
+    let widget = args.item as Widget;
+    if (this.childIndex(widget) !== -1) widget.parent = null;
+    this.widgetRemoved.emit(args);
+  }
+
+  /**
+   * Handle the `itemMoved` signal from the tab bar.
+   */
+  private _onItemMoved(sender: TabBar, args: ITabMovedArgs): void {
+    this.widgetMoved.emit(args);
   }
 
   /**
@@ -247,16 +743,121 @@ class TabPanel extends Widget {
     let oldWidget = this._currentWidget;
     let newWidget = args.item as Widget;
     if (oldWidget === newWidget) return;
+    let stackNode = this._stackedPanel.node;
+    let hadFocus = stackNode.contains(document.activeElement);
     this._currentWidget = newWidget;
     if (oldWidget) oldWidget.hide();
     if (newWidget) newWidget.show();
+    if (hadFocus && newWidget && this._restoreFocus) {
+      let tab = this._tabBar.tabAt(args.index);
+      TabPanelPrivate.restoreFocus(newWidget, this._focusMap.get(newWidget), tab);
+    }
   }
 
   /**
    * Handle the `tabCloseRequested` signal from the tab bar.
    */
   private _onTabCloseRequested(sender: TabBar, args: ITabIndexArgs): void {
-    (args.item as Widget).close();
+    this._requestClose(args.item as Widget);
+  }
+
+  /**
+   * Handle the `tabContextMenuRequested` signal from the tab bar.
+   */
+  private _onTabContextMenuRequested(sender: TabBar, args: ITabContextMenuArgs): void {
+    if (!this._contextMenuEnabled) {
+      return;
+    }
+    this._closeContextMenu();
+    let widgets: Widget[] = [];
+    for (let i = 0, n = this.childCount(); i < n; ++i) {
+      widgets.push(this.childAt(i));
+    }
+    let targets = TabPanelPrivate.closeTargets(widgets, args.index);
+    let enabled = targets.map(group => group.length > 0);
+    let labels = TabPanelPrivate.contextMenuLabelList(this._contextMenuLabels);
+    let menu = new TabPanelPrivate.ContextMenu(labels, enabled);
+    menu.selected = i => { targets[i].forEach(widget => { this._requestClose(widget); }); };
+    menu.closed = () => { this._contextMenu = null; };
+    this._contextMenu = menu;
+    menu.open(args.clientX, args.clientY);
+  }
+
+  /**
+   * Close the tab context menu without running a command.
+   */
+  private _closeContextMenu(): void {
+    if (this._contextMenu) this._contextMenu.close();
+  }
+
+  /**
+   * Close a widget if it is allowed by the close guard.
+   */
+  private _requestClose(widget: Widget): void {
+    // Ignore the request if a close is already pending.
+    if (this._closing.has(widget)) {
+      return;
+    }
+
+    // Close the widget immediately if there is no guard.
+    if (!this._closeGuard) {
+      widget.close();
+      return;
+    }
+
+    // Close the widget if the guard allows it synchronously.
+    let result = this._closeGuard(widget);
+    let thenable = result as IThenable<boolean>;
+    if (!thenable || typeof thenable.then !== 'function') {
+      if (result !== false) widget.close();
+      return;
+    }
+
+    // Lock the tab until the guard result is resolved.
+    this._closing.add(widget);
+    this._tabBar.setTabClosing(widget, true);
+    let finish = (allowed: boolean) => {
+      if (!this._closing.delete(widget)) {
+        return;
+      }
+      this._tabBar.setTabClosing(widget, false);
+      if (allowed !== false) widget.close();
+    };
+    try {
+      thenable.then(finish, () => { finish(false); });
+    } catch (err) {
+      finish(false);
+    }
+  }
+
+  /**
+   * Handle the `tabDropped` signal from the tab bar.
+   *
+   * #### Notes
+   * Only the widgets dragged from the tab bar of another tab panel are
+   * accepted, and any other drop is rejected.
+   *
+   * Inserting the widget removes it from the stacked panel of its old
+   * tab panel, which in turn removes its tab from the source tab bar.
+   */
+  private _onTabDropped(sender: TabBar, args: ITabDropArgs): void {
+    // Reject the drop unless the widget is transferred below.
+    args.cancel = true;
+    let source = args.source.parent;
+    if (!(source instanceof TabPanel) || (source as TabPanel).tabBar !== args.source) {
+      return;
+    }
+    if (!(args.item instanceof Widget)) {
+      return;
+    }
+    let widget = args.item as Widget;
+    this.insertChild(args.toIndex, widget);
+    if (this.childIndex(widget) === -1) {
+      return;
+    }
+    args.cancel = false;
+    args.handled = true;
+    this.currentWidget = widget;
   }
 
   /**
@@ -271,10 +872,533 @@ class TabPanel extends Widget {
    */
   private _onWidgetRemoved(sender: StackedPanel, widget: Widget): void {
     if (this._currentWidget === widget) this._currentWidget = null;
+    this._closeSwitcher();
+    this._closeContextMenu();
+    this._closing.delete(widget);
+    this._focusMap.delete(widget);
+    TabPanelPrivate.unlinkWidget(widget);
     this._tabBar.removeItem(widget);
   }
 
   private _tabBar: TabBar;
   private _stackedPanel: StackedPanel;
   private _currentWidget: Widget = null;
+  private _tabPlacement = TabPlacement.Top;
+  private _restoreFocus = true;
+  private _switcherEnabled = false;
+  private _switcher: TabPanelPrivate.TabSwitcher = null;
+  private _contextMenuEnabled = false;
+  private _contextMenu: TabPanelPrivate.ContextMenu = null;
+  private _contextMenuLabels = TabPanelPrivate.createContextMenuLabels();
+  private _closeGuard: CloseGuard = null;
+  private _closing = new Set<Widget>();
+  private _focusMap = new Map<Widget, HTMLElement>();
+}
+
+
+/**
+ * The namespace for the `TabPanel` class statics.
+ */
+export
+namespace TabPanel {
+  /**
+   * A convenience alias of the `Top` [[TabPlacement]].
+   */
+  export
+  const Top = TabPlacement.Top;
+
+  /**
+   * A convenience alias of the `Bottom` [[TabPlacement]].
+   */
+  export
+  const Bottom = TabPlacement.Bottom;
+
+  /**
+   * A convenience alias of the `Left` [[TabPlacement]].
+   */
+  export
+  const Left = TabPlacement.Left;
+
+  /**
+   * A convenience alias of the `Right` [[TabPlacement]].
+   */
+  export
+  const Right = TabPlacement.Right;
+}
+
+
+/**
+ * The namespace for the `TabPanel` class private data.
+ */
+namespace TabPanelPrivate {
+  /**
+   * A signal emitted when the current widget is about to change.
+   */
+  export
+  const currentAboutToChangeSignal = new Signal<TabPanel, ICurrentAboutToChangeArgs>();
+
+  /**
+   * A signal emitted when a child widget is inserted.
+   */
+  export
+  const widgetInsertedSignal = new Signal<TabPanel, ITabIndexArgs>();
+
+  /**
+   * A signal emitted when a child widget is removed.
+   */
+  export
+  const widgetRemovedSignal = new Signal<TabPanel, ITabIndexArgs>();
+
+  /**
+   * A signal emitted when a child widget is moved.
+   */
+  export
+  const widgetMovedSignal = new Signal<TabPanel, ITabMovedArgs>();
+
+  /**
+   * The id counter for generated child widget ids.
+   */
+  let panelIdTick = 0;
+
+  /**
+   * Link a tab node and its child widget with ARIA attributes.
+   *
+   * #### Notes
+   * A unique id is assigned to the widget if it does not have one.
+   */
+  export
+  function linkTab(tab: HTMLElement, widget: Widget): void {
+    if (!widget.id) widget.id = `p-TabPanel-panel-${panelIdTick++}`;
+    tab.setAttribute('aria-controls', widget.id);
+    widget.node.setAttribute('role', 'tabpanel');
+    widget.node.setAttribute('aria-labelledby', tab.id);
+  }
+
+  /**
+   * Move the focus into a widget which became current.
+   *
+   * #### Notes
+   * The last focused element is preferred if it is still contained in
+   * the widget. Otherwise the widget node is focused if it is focusable,
+   * and the tab node is focused as a last resort.
+   */
+  export
+  function restoreFocus(widget: Widget, last: HTMLElement, tab: HTMLElement): void {
+    if (last && widget.node.contains(last)) {
+      last.focus();
+    } else if (widget.node.hasAttribute('tabindex')) {
+      widget.node.focus();
+    } else if (tab) {
+      tab.focus();
+    }
+  }
+
+  /**
+   * Get the widgets of a tab bar in most recently used order.
+   *
+   * #### Notes
+   * Widgets which have never been current follow in tab order.
+   */
+  export
+  function recentWidgets(tabBar: TabBar): Widget[] {
+    let widgets = tabBar.activationHistory as Widget[];
+    for (let i = 0, n = tabBar.itemCount(); i < n; ++i) {
+      let item = tabBar.itemAt(i) as Widget;
+      if (widgets.indexOf(item) === -1) widgets.push(item);
+    }
+    return widgets;
+  }
+
+  /**
+   * Create the default labels of the tab context menu commands.
+   */
+  export
+  function createContextMenuLabels(): ITabContextMenuLabels {
+    return {
+      close: 'Close',
+      closeOthers: 'Close Others',
+      closeToRight: 'Close to the Right',
+      closeAll: 'Close All',
+    };
+  }
+
+  /**
+   * Create a shallow copy of a context menu labels object.
+   */
+  export
+  function copyContextMenuLabels(value: ITabContextMenuLabels): ITabContextMenuLabels {
+    let { close, closeOthers, closeToRight, closeAll } = value;
+    return { close, closeOthers, closeToRight, closeAll };
+  }
+
+  /**
+   * Get the context menu labels in the order of the menu commands.
+   */
+  export
+  function contextMenuLabelList(value: ITabContextMenuLabels): string[] {
+    return [value.close, value.closeOthers, value.closeToRight, value.closeAll];
+  }
+
+  /**
+   * Get the closable widgets targeted by each context menu command.
+   *
+   * @param widgets - The widgets of the tab panel, in tab order.
+   *
+   * @param index - The index of the tab which was clicked.
+   *
+   * @returns The target widgets for each of the [[contextMenuLabelList]].
+   */
+  export
+  function closeTargets(widgets: Widget[], index: number): Widget[][] {
+    let closable = (widget: Widget) => widget.title.closable;
+    let current = widgets.slice(index, index + 1);
+    let others = widgets.filter((widget, i) => i !== index);
+    let right = widgets.slice(index + 1);
+    return [current, others, right, widgets].map(group => group.filter(closable));
+  }
+
+  /**
+   * A simple popup menu which lists the tab context menu commands.
+   */
+  export
+  class ContextMenu {
+    /**
+     * Construct a new context menu.
+     *
+     * @param labels - The labels of the menu commands.
+     *
+     * @param enabled - Whether each menu command is enabled.
+     */
+    constructor(labels: string[], enabled: boolean[]) {
+      this._enabled = enabled;
+      this._node = createContextMenuNode(labels, enabled);
+    }
+
+    /**
+     * A callback invoked with the index of the selected command.
+     */
+    selected: (index: number) => void = null;
+
+    /**
+     * A callback invoked when the menu is closed.
+     */
+    closed: () => void = null;
+
+    /**
+     * Show the menu at the given client position.
+     */
+    open(clientX: number, clientY: number): void {
+      let style = this._node.style;
+      style.position = 'absolute';
+      style.top = clientY + window.pageYOffset + 'px';
+      style.left = clientX + window.pageXOffset + 'px';
+      document.body.appendChild(this._node);
+      this._node.addEventListener('click', this);
+      document.addEventListener('mousedown', this, true);
+      document.addEventListener('keydown', this, true);
+    }
+
+    /**
+     * Remove the menu from the DOM and invoke the closed callback.
+     */
+    close(): void {
+      if (!this._node.parentNode) {
+        return;
+      }
+      this._node.removeEventListener('click', this);
+      document.removeEventListener('mousedown', this, true);
+      document.removeEventListener('keydown', this, true);
+      this._node.parentNode.removeChild(this._node);
+      if (this.closed) this.closed();
+    }
+
+    /**
+     * Handle the DOM events for the context menu.
+     */
+    handleEvent(event: Event): void {
+      switch (event.type) {
+      case 'click':
+        this._evtClick(event as MouseEvent);
+        break;
+      case 'mousedown':
+        this._evtMouseDown(event as MouseEvent);
+        break;
+      case 'keydown':
+        this._evtKeyDown(event as KeyboardEvent);
+        break;
+      }
+    }
+
+    /**
+     * Handle the `'click'` event for the context menu.
+     */
+    private _evtClick(event: MouseEvent): void {
+      let children = this._node.children;
+      let target = event.target as HTMLElement;
+      for (let i = 0, n = children.length; i < n; ++i) {
+        if (children[i].contains(target)) {
+          event.preventDefault();
+          event.stopPropagation();
+          if (!this._enabled[i]) {
+            return;
+          }
+          this.close();
+          if (this.selected) this.selected(i);
+          return;
+        }
+      }
+    }
+
+    /**
+     * Handle the `'mousedown'` event for the context menu.
+     */
+    private _evtMouseDown(event: MouseEvent): void {
+      if (!this._node.contains(event.target as HTMLElement)) this.close();
+    }
+
+    /**
+     * Handle the `'keydown'` event for the context menu.
+     */
+    private _evtKeyDown(event: KeyboardEvent): void {
+      // Close the menu if `Escape` is pressed.
+      if (event.keyCode !== 27) {
+        return;
+      }
+      event.preventDefault();
+      event.stopPropagation();
+      this.close();
+    }
+
+    private _node: HTMLElement;
+    private _enabled: boolean[];
+  }
+
+  /**
+   * Create the DOM node for a context menu.
+   */
+  function createContextMenuNode(labels: string[], enabled: boolean[]): HTMLElement {
+    let node = document.createElement('ul');
+    node.className = CONTEXT_MENU_CLASS;
+    node.setAttribute('role', 'menu');
+    for (let i = 0, n = labels.length; i < n; ++i) {
+      let li = document.createElement('li');
+      li.className = CONTEXT_MENU_ITEM_CLASS;
+      li.setAttribute('role', 'menuitem');
+      li.textContent = labels[i];
+      if (!enabled[i]) {
+        li.classList.add(DISABLED_CLASS);
+        li.setAttribute('aria-disabled', 'true');
+      }
+      node.appendChild(li);
+    }
+    return node;
+  }
+
+  /**
+   * An overlay which cycles through the widgets of a tab panel.
+   */
+  export
+  class TabSwitcher {
+    /**
+     * Construct a new tab switcher.
+     *
+     * @param widgets - The widgets to list in the switcher.
+     *
+     * @param index - The index of the initially highlighted widget.
+     */
+    constructor(widgets: Widget[], index: number) {
+      this._widgets = widgets;
+      this._index = index;
+      this._node = createSwitcherNode(widgets);
+      this._highlight(index);
+    }
+
+    /**
+     * A callback invoked when the user selects a widget.
+     */
+    selected: (widget: Widget) => void = null;
+
+    /**
+     * A callback invoked when the switcher is closed.
+     */
+    closed: () => void = null;
+
+    /**
+     * Show the switcher as an overlay of the given host node.
+     */
+    open(host: HTMLElement): void {
+      host.appendChild(this._node);
+      this._node.addEventListener('click', this);
+      document.addEventListener('mousedown', this, true);
+      document.addEventListener('keydown', this, true);
+      document.addEventListener('keyup', this, true);
+    }
+
+    /**
+     * Remove the switcher from the DOM and invoke the closed callback.
+     */
+    close(): void {
+      if (!this._node.parentNode) {
+        return;
+      }
+      this._node.removeEventListener('click', this);
+      document.removeEventListener('mousedown', this, true);
+      document.removeEventListener('keydown', this, true);
+      document.removeEventListener('keyup', this, true);
+      this._node.parentNode.removeChild(this._node);
+      if (this.closed) this.closed();
+    }
+
+    /**
+     * Handle the DOM events for the tab switcher.
+     */
+    handleEvent(event: Event): void {
+      switch (event.type) {
+      case 'click':
+        this._evtClick(event as MouseEvent);
+        break;
+      case 'mousedown':
+        this._evtMouseDown(event as MouseEvent);
+        break;
+      case 'keydown':
+        this._evtKeyDown(event as KeyboardEvent);
+        break;
+      case 'keyup':
+        this._evtKeyUp(event as KeyboardEvent);
+        break;
+      }
+    }
+
+    /**
+     * Handle the `'click'` event for the tab switcher.
+     */
+    private _evtClick(event: MouseEvent): void {
+      let children = this._node.children;
+      let target = event.target as HTMLElement;
+      for (let i = 0, n = children.length; i < n; ++i) {
+        if (children[i].contains(target)) {
+          event.preventDefault();
+          event.stopPropagation();
+          this._select(i);
+          return;
+        }
+      }
+    }
+
+    /**
+     * Handle the `'mousedown'` event for the tab switcher.
+     */
+    private _evtMouseDown(event: MouseEvent): void {
+      if (!this._node.contains(event.target as HTMLElement)) this.close();
+    }
+
+    /**
+     * Handle the `'keydown'` event for the tab switcher.
+     */
+    private _evtKeyDown(event: KeyboardEvent): void {
+      switch (event.keyCode) {
+      case 9:  // Tab
+        event.preventDefault();
+        event.stopPropagation();
+        let n = this._widgets.length;
+        this._highlight((this._index + (event.shiftKey ? n - 1 : 1)) % n);
+        break;
+      case 27:  // Escape
+        event.preventDefault();
+        event.stopPropagation();
+        this.close();
+        break;
+      }
+    }
+
+    /**
+     * Handle the `'keyup'` event for the tab switcher.
+     */
+    private _evtKeyUp(event: KeyboardEvent): void {
+      // Select the highlighted widget when `Ctrl` is released.
+      if (event.keyCode !== 17) {
+        return;
+      }
+      event.preventDefault();
+      event.stopPropagation();
+      this._select(this._index);
+    }
+
+    /**
+     * Close the switcher and select the widget at the given index.
+     */
+    private _select(index: number): void {
+      let widget = this._widgets[index];
+      this.close();
+      if (this.selected) this.selected(widget);
+    }
+
+    /**
+     * Move the highlight to the item at the given index.
+     */
+    private _highlight(index: number): void {
+      let children = this._node.children;
+      children[this._index].classList.remove(CURRENT_CLASS);
+      children[index].classList.add(CURRENT_CLASS);
+      this._index = index;
+    }
+
+    private _node: HTMLElement;
+    private _widgets: Widget[];
+    private _index: number;
+  }
+
+  /**
+   * Create the DOM node for a tab switcher.
+   */
+  function createSwitcherNode(widgets: Widget[]): HTMLElement {
+    let node = document.createElement('ul');
+    node.className = SWITCHER_CLASS;
+    node.setAttribute('role', 'listbox');
+    for (let i = 0, n = widgets.length; i < n; ++i) {
+      let title = widgets[i].title;
+      let li = document.createElement('li');
+      let icon = document.createElement('span');
+      let text = document.createElement('span');
+      li.className = SWITCHER_ITEM_CLASS;
+      li.setAttribute('role', 'option');
+      icon.className = SWITCHER_ICON_CLASS + (title.icon ? ' ' + title.icon : '');
+      text.className = SWITCHER_TEXT_CLASS;
+      text.textContent = title.text;
+      li.appendChild(icon);
+      li.appendChild(text);
+      node.appendChild(li);
+    }
+    return node;
+  }
+
+  /**
+   * Remove the ARIA attributes added to a child widget.
+   */
+  export
+  function unlinkWidget(widget: Widget): void {
+    widget.node.removeAttribute('role');
+    widget.node.removeAttribute('aria-labelledby');
+  }
+
+  /**
+   * Apply the given tab placement to a tab panel.
+   *
+   * #### Notes
+   * This updates the layout direction, the child order, the tab bar
+   * orientation, and the placement modifier class of the panel.
+   */
+  export
+  function applyPlacement(panel: TabPanel, placement: TabPlacement): void {
+    let horz = placement === TabPlacement.Top || placement === TabPlacement.Bottom;
+    let lead = placement === TabPlacement.Top || placement === TabPlacement.Left;
+    let layout = panel.layout as BoxLayout;
+    layout.direction = horz ? BoxLayout.TopToBottom : BoxLayout.LeftToRight;
+    layout.insertChild(lead ? 0 : 1, panel.tabBar);
+    panel.tabBar.orientation = horz ? Orientation.Horizontal : Orientation.Vertical;
+    panel.toggleClass(TOP_CLASS, placement === TabPlacement.Top);
+    panel.toggleClass(BOTTOM_CLASS, placement === TabPlacement.Bottom);
+    panel.toggleClass(LEFT_CLASS, placement === TabPlacement.Left);
+    panel.toggleClass(RIGHT_CLASS, placement === TabPlacement.Right);
+  }
 }
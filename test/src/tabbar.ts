@@ -9,6 +9,125 @@
 
 import expect = require('expect.js');
 
+import {
+  sendMessage
+} from 'phosphor-messaging';
+
+import {
+  Widget
+} from 'phosphor-widget';
+
+import {
+  ICurrentAboutToChangeArgs, ITabContextMenuArgs, ITabDropArgs, ITabIndexArgs,
+  ITabItem, ITabMovedArgs, Orientation, OverflowMode, RemovalPolicy, TabBar,
+  TabSizing, TextDirection
+} from '../../lib/index';
+
+import './index.css';
+
+
+class ButtonlessTabBar extends TabBar {
+
+  static createNode(): HTMLElement {
+    let node = TabBar.createNode();
+    let buttons = node.querySelectorAll('.p-TabBar-prevButton, .p-TabBar-nextButton, .p-TabBar-menuButton');
+    for (let i = 0; i < buttons.length; ++i) {
+      buttons[i].parentNode.removeChild(buttons[i]);
+    }
+    return node;
+  }
+}
+
+
+function createContent(title: string): Widget {
+  let widget = new Widget();
+  widget.title.text = title;
+  return widget;
+}
+
+
+function createTabBar(count: number, width = 600, height = 24, tabBar = new TabBar()): TabBar {
+  for (let i = 0; i < count; ++i) {
+    tabBar.addItem(createContent(`${i}`));
+  }
+  let style = tabBar.node.style;
+  style.position = 'absolute';
+  style.left = '10px';
+  style.top = '10px';
+  style.width = `${width}px`;
+  style.height = `${height}px`;
+  style.minHeight = '0';
+  style.maxHeight = 'none';
+  tabBar.attach(document.body);
+  sendMessage(tabBar, Widget.MsgUpdateRequest);
+  return tabBar;
+}
+
+
+function tabCenter(tabBar: TabBar, index: number): { x: number, y: number } {
+  let rect = tabBar.tabAt(index).getBoundingClientRect();
+  return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+}
+
+
+function triggerMouseEvent(node: HTMLElement, eventType: string, options: any = {}) {
+  options.bubbles = true;
+  options.cancelable = true;
+  let mouseEvent = new MouseEvent(eventType, options);
+  node.dispatchEvent(mouseEvent);
+}
+
+
+function triggerKeyEvent(node: HTMLElement, keyCode: number, options: any = {}): void {
+  let event = document.createEvent('Event') as any;
+  event.initEvent('keydown', true, true);
+  event.keyCode = keyCode;
+  for (let key in options) {
+    event[key] = options[key];
+  }
+  node.dispatchEvent(event);
+}
+
+
+function buttonNode(tabBar: TabBar, className: string): HTMLElement {
+  return tabBar.node.getElementsByClassName(className)[0] as HTMLElement;
+}
+
+
+function triggerTabEvent(tabBar: TabBar, index: number, eventType: string, options: any = {}): void {
+  let pos = tabCenter(tabBar, index);
+  options.clientX = pos.x;
+  options.clientY = pos.y;
+  triggerMouseEvent(tabBar.tabAt(index), eventType, options);
+}
+
+
+function pressTab(tabBar: TabBar, index: number, options: any = {}): void {
+  triggerTabEvent(tabBar, index, 'mousedown', options);
+}
+
+
+function dragTab(tabBar: TabBar, index: number, dx: number, dy: number): void {
+  let pos = tabCenter(tabBar, index);
+  pressTab(tabBar, index);
+  triggerMouseEvent(document.body, 'mousemove', { clientX: pos.x + dx, clientY: pos.y + dy });
+}
+
+
+function releaseMouse(): void {
+  triggerMouseEvent(document.body, 'mouseup');
+}
+
+
+function itemTexts(tabBar: TabBar): string[] {
+  let texts: string[] = [];
+  for (let i = 0, n = tabBar.itemCount(); i < n; ++i) {
+    texts.push(tabBar.itemAt(i).title.text);
+  }
+  return texts;
+}
+
+
 // import {
 //   Message, sendMessage
 // } from 'phosphor-messaging';
@@ -121,6 +240,1620 @@ describe('phosphor-tabs', () => {
 
   });
 
+  describe('TabBar', () => {
+
+    describe('#orientation', () => {
+
+      it('should default to `Orientation.Horizontal`', () => {
+        let tabBar = new TabBar();
+        expect(tabBar.orientation).to.be(Orientation.Horizontal);
+        expect(tabBar.hasClass('p-mod-horizontal')).to.be(true);
+        tabBar.dispose();
+      });
+
+      it('should toggle the orientation classes', () => {
+        let tabBar = new TabBar();
+        tabBar.orientation = TabBar.Vertical;
+        expect(tabBar.hasClass('p-mod-vertical')).to.be(true);
+        expect(tabBar.hasClass('p-mod-horizontal')).to.be(false);
+        expect(tabBar.contentNode.getAttribute('aria-orientation')).to.be('vertical');
+        tabBar.dispose();
+      });
+
+      it('should move a dragged tab along the vertical axis', (done) => {
+        let tabBar = createTabBar(3, 100, 500);
+        tabBar.orientation = Orientation.Vertical;
+        tabBar.tabsMovable = true;
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        let args: ITabMovedArgs = null;
+        tabBar.tabMoved.connect((sender, value) => { args = value; });
+        dragTab(tabBar, 0, 0, 140);
+        expect(tabBar.tabAt(0).style.top).to.be('140px');
+        expect(tabBar.tabAt(1).style.top).to.be('-125px');
+        releaseMouse();
+        setTimeout(() => {
+          expect(args.fromIndex).to.be(0);
+          expect(args.toIndex).to.be(1);
+          expect(itemTexts(tabBar)).to.eql(['1', '0', '2']);
+          tabBar.dispose();
+          done();
+        }, 200);
+      });
+
+    });
+
+    describe('#overflowMode', () => {
+
+      it('should default to `OverflowMode.None`', () => {
+        let tabBar = new TabBar();
+        expect(tabBar.overflowMode).to.be(OverflowMode.None);
+        expect(tabBar.hasClass('p-mod-scroll')).to.be(false);
+        tabBar.dispose();
+      });
+
+      it('should mark an overflowing tab bar in scroll mode', () => {
+        let tabBar = createTabBar(5, 300);
+        tabBar.overflowMode = OverflowMode.Scroll;
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tabBar.hasClass('p-mod-scroll')).to.be(true);
+        expect(tabBar.hasClass('p-mod-overflowing')).to.be(true);
+        let prev = buttonNode(tabBar, 'p-TabBar-prevButton');
+        let next = buttonNode(tabBar, 'p-TabBar-nextButton');
+        expect(prev.classList.contains('p-mod-disabled')).to.be(true);
+        expect(next.classList.contains('p-mod-disabled')).to.be(false);
+        tabBar.dispose();
+      });
+
+      it('should scroll by one tab when a scroll button is clicked', () => {
+        let tabBar = createTabBar(5, 300);
+        tabBar.overflowMode = OverflowMode.Scroll;
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        triggerMouseEvent(buttonNode(tabBar, 'p-TabBar-nextButton'), 'click');
+        expect(tabBar.contentNode.scrollLeft).to.be(75);
+        triggerMouseEvent(buttonNode(tabBar, 'p-TabBar-prevButton'), 'click');
+        expect(tabBar.contentNode.scrollLeft).to.be(0);
+        tabBar.dispose();
+      });
+
+      it('should scroll the current tab into view', () => {
+        let tabBar = createTabBar(5, 300);
+        tabBar.overflowMode = OverflowMode.Scroll;
+        tabBar.currentItem = tabBar.itemAt(4);
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tabBar.contentNode.scrollLeft).to.be(325);
+        tabBar.dispose();
+      });
+
+      it('should not require the scroll buttons in the tab bar node', () => {
+        let tabBar = createTabBar(5, 300, 24, new ButtonlessTabBar());
+        tabBar.overflowMode = OverflowMode.Scroll;
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        pressTab(tabBar, 1);
+        triggerMouseEvent(tabBar.tabAt(1), 'click');
+        expect(tabBar.currentItem).to.be(tabBar.itemAt(1));
+        tabBar.dispose();
+      });
+
+    });
+
+    describe('#hiddenItems', () => {
+
+      it('should contain the items whose tabs are clipped', () => {
+        let tabBar = new TabBar();
+        tabBar.overflowMenuEnabled = true;
+        createTabBar(5, 300, 24, tabBar);
+        let items = tabBar.hiddenItems;
+        expect(items).to.eql([tabBar.itemAt(2), tabBar.itemAt(3), tabBar.itemAt(4)]);
+        expect(tabBar.hasClass('p-mod-clipped')).to.be(true);
+        tabBar.dispose();
+      });
+
+      it('should be empty when all of the tabs fit', () => {
+        let tabBar = createTabBar(3, 600);
+        expect(tabBar.hiddenItems).to.eql([]);
+        expect(tabBar.hasClass('p-mod-clipped')).to.be(false);
+        tabBar.dispose();
+      });
+
+      it('should not measure the tabs in none mode by default', () => {
+        let tabBar = createTabBar(5, 300);
+        expect(tabBar.hiddenItems).to.eql([]);
+        expect(tabBar.hasClass('p-mod-clipped')).to.be(false);
+        tabBar.dispose();
+      });
+
+      it('should measure the tabs in scroll mode', () => {
+        let tabBar = createTabBar(5, 300);
+        tabBar.overflowMode = OverflowMode.Scroll;
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tabBar.hiddenItems.length).to.be.above(0);
+        tabBar.dispose();
+      });
+
+      it('should emit `hiddenItemsChanged` when the hidden items change', () => {
+        let tabBar = createTabBar(5, 600);
+        let args: any[] = [];
+        tabBar.hiddenItemsChanged.connect((sender, items) => { args.push(items); });
+        tabBar.node.style.width = '300px';
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(args.length).to.be(1);
+        expect(args[0]).to.eql([tabBar.itemAt(2), tabBar.itemAt(3), tabBar.itemAt(4)]);
+        tabBar.node.style.width = '700px';
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(args.length).to.be(2);
+        expect(args[1]).to.eql([]);
+        tabBar.dispose();
+      });
+
+      it('should stop measuring the tabs when the handlers disconnect', () => {
+        let tabBar = createTabBar(5, 300);
+        let handler = () => { };
+        tabBar.hiddenItemsChanged.connect(handler);
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tabBar.hiddenItems.length).to.be(3);
+        tabBar.hiddenItemsChanged.disconnect(handler);
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tabBar.hiddenItems).to.eql([]);
+        tabBar.dispose();
+      });
+
+    });
+
+    describe('#overflowMenuEnabled', () => {
+
+      function createMenuTabBar(): TabBar {
+        let tabBar = new TabBar();
+        tabBar.overflowMenuEnabled = true;
+        return createTabBar(5, 300, 24, tabBar);
+      }
+
+      it('should default to `false`', () => {
+        let tabBar = new TabBar();
+        expect(tabBar.overflowMenuEnabled).to.be(false);
+        expect(tabBar.hasClass('p-mod-overflowMenu')).to.be(false);
+        tabBar.dispose();
+      });
+
+      it('should toggle the overflow menu class', () => {
+        let tabBar = new TabBar();
+        tabBar.overflowMenuEnabled = true;
+        expect(tabBar.hasClass('p-mod-overflowMenu')).to.be(true);
+        tabBar.overflowMenuEnabled = false;
+        expect(tabBar.hasClass('p-mod-overflowMenu')).to.be(false);
+        tabBar.dispose();
+      });
+
+      it('should open a menu of the hidden items from the menu button', () => {
+        let tabBar = createMenuTabBar();
+        triggerMouseEvent(buttonNode(tabBar, 'p-TabBar-menuButton'), 'click');
+        let menu = document.body.querySelector('.p-TabBar-overflowMenu') as HTMLElement;
+        expect(menu).to.be.ok();
+        let texts = menu.querySelectorAll('.p-TabBar-overflowMenuItemText');
+        expect(texts.length).to.be(3);
+        expect(texts[0].textContent).to.be('2');
+        triggerMouseEvent(buttonNode(tabBar, 'p-TabBar-menuButton'), 'click');
+        expect(menu.parentNode).to.be(null);
+        tabBar.dispose();
+      });
+
+      it('should make a selected menu item current', () => {
+        let tabBar = createMenuTabBar();
+        triggerMouseEvent(buttonNode(tabBar, 'p-TabBar-menuButton'), 'click');
+        let menu = document.body.querySelector('.p-TabBar-overflowMenu') as HTMLElement;
+        triggerMouseEvent(menu.children[1] as HTMLElement, 'click');
+        expect(menu.parentNode).to.be(null);
+        expect(tabBar.currentItem).to.be(tabBar.itemAt(3));
+        tabBar.dispose();
+      });
+
+      it('should close the menu on an outside press', () => {
+        let tabBar = createMenuTabBar();
+        triggerMouseEvent(buttonNode(tabBar, 'p-TabBar-menuButton'), 'click');
+        let menu = document.body.querySelector('.p-TabBar-overflowMenu') as HTMLElement;
+        triggerMouseEvent(document.body, 'mousedown');
+        expect(menu.parentNode).to.be(null);
+        tabBar.dispose();
+      });
+
+      it('should open the menu from the keyboard', () => {
+        let tabBar = createMenuTabBar();
+        let button = buttonNode(tabBar, 'p-TabBar-menuButton');
+        expect(button.getAttribute('role')).to.be('button');
+        expect(button.getAttribute('aria-haspopup')).to.be('true');
+        triggerKeyEvent(button, 13);
+        let menu = document.body.querySelector('.p-TabBar-overflowMenu') as HTMLElement;
+        expect(menu.getAttribute('role')).to.be('menu');
+        expect(menu.children[0].getAttribute('role')).to.be('menuitem');
+        expect(button.getAttribute('aria-expanded')).to.be('true');
+        expect(document.activeElement).to.be(menu.children[0]);
+        triggerKeyEvent(document.activeElement as HTMLElement, 27);
+        expect(menu.parentNode).to.be(null);
+        expect(button.getAttribute('aria-expanded')).to.be('false');
+        expect(document.activeElement).to.be(button);
+        tabBar.dispose();
+      });
+
+      it('should navigate the menu items with the arrow keys', () => {
+        let tabBar = createMenuTabBar();
+        triggerMouseEvent(buttonNode(tabBar, 'p-TabBar-menuButton'), 'click');
+        let menu = document.body.querySelector('.p-TabBar-overflowMenu') as HTMLElement;
+        triggerKeyEvent(document.activeElement as HTMLElement, 40);
+        expect(document.activeElement).to.be(menu.children[1]);
+        triggerKeyEvent(document.activeElement as HTMLElement, 40);
+        triggerKeyEvent(document.activeElement as HTMLElement, 40);
+        expect(document.activeElement).to.be(menu.children[0]);
+        triggerKeyEvent(document.activeElement as HTMLElement, 38);
+        expect(document.activeElement).to.be(menu.children[2]);
+        triggerKeyEvent(document.activeElement as HTMLElement, 36);
+        expect(document.activeElement).to.be(menu.children[0]);
+        expect((menu.children[0] as HTMLElement).tabIndex).to.be(0);
+        expect((menu.children[2] as HTMLElement).tabIndex).to.be(-1);
+        triggerKeyEvent(document.activeElement as HTMLElement, 27);
+        tabBar.dispose();
+      });
+
+      it('should select the focused menu item with `Enter`', () => {
+        let tabBar = createMenuTabBar();
+        let button = buttonNode(tabBar, 'p-TabBar-menuButton');
+        triggerKeyEvent(button, 40);
+        let menu = document.body.querySelector('.p-TabBar-overflowMenu') as HTMLElement;
+        triggerKeyEvent(document.activeElement as HTMLElement, 35);
+        triggerKeyEvent(document.activeElement as HTMLElement, 13);
+        expect(menu.parentNode).to.be(null);
+        expect(tabBar.currentItem).to.be(tabBar.itemAt(4));
+        expect(document.activeElement).to.be(button);
+        tabBar.dispose();
+      });
+
+    });
+
+    describe('#overflowMode (wrap)', () => {
+
+      it('should wrap the tabs without hiding any items', () => {
+        let tabBar = createTabBar(5, 300, 72);
+        tabBar.overflowMode = OverflowMode.Wrap;
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tabBar.hasClass('p-mod-wrap')).to.be(true);
+        expect(tabBar.hasClass('p-mod-clipped')).to.be(false);
+        expect(tabBar.hiddenItems).to.eql([]);
+        tabBar.dispose();
+      });
+
+      it('should move the row of the current tab to the end', () => {
+        let tabBar = createTabBar(5, 300, 72);
+        tabBar.overflowMode = OverflowMode.Wrap;
+        tabBar.currentItem = tabBar.itemAt(0);
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tabBar.tabAt(0).style.order).to.be('4');
+        expect(tabBar.tabAt(2).style.order).to.be('0');
+        expect(tabBar.tabAt(4).style.order).to.be('2');
+        let breaks = tabBar.contentNode.getElementsByClassName('p-TabBar-rowBreak');
+        expect(breaks.length).to.be(2);
+        tabBar.overflowMode = OverflowMode.None;
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tabBar.tabAt(0).style.order).to.be('');
+        expect(breaks.length).to.be(0);
+        tabBar.dispose();
+      });
+
+      it('should group tabs with mixed heights into rows', () => {
+        let tabBar = createTabBar(5, 300, 72);
+        tabBar.overflowMode = OverflowMode.Wrap;
+        tabBar.currentItem = tabBar.itemAt(0);
+        tabBar.contentNode.style.alignItems = 'flex-end';
+        for (let i = 0; i < 5; ++i) {
+          tabBar.tabAt(i).style.height = i === 0 ? '23px' : '20px';
+        }
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tabBar.tabAt(0).style.order).to.be('4');
+        expect(tabBar.tabAt(1).style.order).to.be('4');
+        expect(tabBar.tabAt(2).style.order).to.be('0');
+        expect(tabBar.tabAt(4).style.order).to.be('2');
+        let breaks = tabBar.contentNode.getElementsByClassName('p-TabBar-rowBreak');
+        expect(breaks.length).to.be(2);
+        tabBar.dispose();
+      });
+
+      it('should move a dragged tab into another row', (done) => {
+        let tabBar = createTabBar(5, 300, 72);
+        tabBar.overflowMode = OverflowMode.Wrap;
+        tabBar.tabsMovable = true;
+        tabBar.currentItem = tabBar.itemAt(4);
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        let args: ITabMovedArgs = null;
+        tabBar.tabMoved.connect((sender, value) => { args = value; });
+        dragTab(tabBar, 0, 125, 24);
+        releaseMouse();
+        setTimeout(() => {
+          expect(args.fromIndex).to.be(0);
+          expect(args.toIndex).to.be(3);
+          expect(itemTexts(tabBar)).to.eql(['1', '2', '3', '0', '4']);
+          tabBar.dispose();
+          done();
+        }, 200);
+      });
+
+    });
+
+    describe('#tabSizing', () => {
+
+      it('should default to `TabSizing.Natural`', () => {
+        let tabBar = createTabBar(3);
+        expect(tabBar.tabSizing).to.be(TabSizing.Natural);
+        expect(tabBar.minTabSize).to.be(0);
+        expect(tabBar.maxTabSize).to.be(Infinity);
+        expect(tabBar.tabAt(0).style.flex).to.be('');
+        tabBar.dispose();
+      });
+
+      it('should allow the tabs to shrink for the shrink policy', () => {
+        let tabBar = createTabBar(3);
+        tabBar.overflowMode = OverflowMode.Scroll;
+        tabBar.tabSizing = TabSizing.Shrink;
+        tabBar.minTabSize = 50;
+        tabBar.maxTabSize = 100;
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        let style = tabBar.tabAt(0).style;
+        expect(style.flex).to.be('0 1 100px');
+        expect(style.minWidth).to.be('50px');
+        expect(style.maxWidth).to.be('100px');
+        tabBar.dispose();
+      });
+
+      it('should give the tabs a fixed size for the equal policy', () => {
+        let tabBar = createTabBar(3);
+        tabBar.tabSizing = TabSizing.Equal;
+        tabBar.maxTabSize = 100;
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tabBar.tabAt(0).style.flex).to.be('0 0 100px');
+        expect(tabBar.tabAt(2).style.flex).to.be('0 0 100px');
+        tabBar.tabSizing = TabSizing.Natural;
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tabBar.tabAt(0).style.flex).to.be('');
+        expect(tabBar.tabAt(0).style.maxWidth).to.be('');
+        tabBar.dispose();
+      });
+
+      it('should size the tabs along the vertical axis', () => {
+        let tabBar = createTabBar(3, 100, 500);
+        tabBar.orientation = Orientation.Vertical;
+        tabBar.tabSizing = TabSizing.Equal;
+        tabBar.minTabSize = 50;
+        tabBar.maxTabSize = 100;
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        let style = tabBar.tabAt(0).style;
+        expect(style.minHeight).to.be('50px');
+        expect(style.maxHeight).to.be('100px');
+        expect(style.minWidth).to.be('');
+        tabBar.dispose();
+      });
+
+      it('should only measure the tabs when their sizes may change', () => {
+        let tabBar = createTabBar(3);
+        tabBar.tabSizing = TabSizing.Equal;
+        tabBar.maxTabSize = 100;
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        tabBar.tabAt(0).style.flex = '0 0 50px';
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tabBar.tabAt(0).style.flex).to.be('0 0 50px');
+        tabBar.itemAt(1).title.text = 'changed';
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tabBar.tabAt(0).style.flex).to.be('0 0 100px');
+        tabBar.dispose();
+      });
+
+    });
+
+    describe('#textDirection', () => {
+
+      it('should default to `TextDirection.Auto`', () => {
+        let tabBar = new TabBar();
+        expect(tabBar.textDirection).to.be(TextDirection.Auto);
+        expect(tabBar.node.hasAttribute('dir')).to.be(false);
+        tabBar.dispose();
+      });
+
+      it('should set the direction of the tab bar node', () => {
+        let tabBar = new TabBar();
+        tabBar.textDirection = TextDirection.RightToLeft;
+        expect(tabBar.node.dir).to.be('rtl');
+        tabBar.textDirection = TextDirection.LeftToRight;
+        expect(tabBar.node.dir).to.be('ltr');
+        tabBar.textDirection = TextDirection.Auto;
+        expect(tabBar.node.hasAttribute('dir')).to.be(false);
+        tabBar.dispose();
+      });
+
+      it('should move a dragged tab from right to left', (done) => {
+        let tabBar = createTabBar(3);
+        tabBar.textDirection = TextDirection.RightToLeft;
+        tabBar.tabsMovable = true;
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        let args: ITabMovedArgs = null;
+        tabBar.tabMoved.connect((sender, value) => { args = value; });
+        dragTab(tabBar, 0, -140, 0);
+        expect(tabBar.tabAt(0).style.left).to.be('-140px');
+        expect(tabBar.tabAt(1).style.left).to.be('125px');
+        releaseMouse();
+        setTimeout(() => {
+          expect(args.fromIndex).to.be(0);
+          expect(args.toIndex).to.be(1);
+          expect(itemTexts(tabBar)).to.eql(['1', '0', '2']);
+          tabBar.dispose();
+          done();
+        }, 200);
+      });
+
+      it('should scroll the current tab into view from right to left', () => {
+        let tabBar = createTabBar(5, 300);
+        tabBar.textDirection = TextDirection.RightToLeft;
+        tabBar.overflowMode = OverflowMode.Scroll;
+        tabBar.currentItem = tabBar.itemAt(4);
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tabBar.contentNode.scrollLeft).to.be(-325);
+        tabBar.dispose();
+      });
+
+    });
+
+    describe('keyboard navigation', () => {
+
+      it('should give the current tab the roving tab index', () => {
+        let tabBar = createTabBar(3);
+        tabBar.currentItem = tabBar.itemAt(1);
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tabBar.tabAt(0).tabIndex).to.be(-1);
+        expect(tabBar.tabAt(1).tabIndex).to.be(0);
+        expect(tabBar.tabAt(2).tabIndex).to.be(-1);
+        tabBar.dispose();
+      });
+
+      it('should move the focus with the arrow keys', () => {
+        let tabBar = createTabBar(3);
+        tabBar.currentItem = tabBar.itemAt(0);
+        tabBar.tabAt(0).focus();
+        triggerKeyEvent(tabBar.tabAt(0), 39);
+        expect(document.activeElement).to.be(tabBar.tabAt(1));
+        expect(tabBar.tabAt(1).tabIndex).to.be(0);
+        expect(tabBar.tabAt(0).tabIndex).to.be(-1);
+        expect(tabBar.currentItem).to.be(tabBar.itemAt(0));
+        triggerKeyEvent(tabBar.tabAt(1), 37);
+        expect(document.activeElement).to.be(tabBar.tabAt(0));
+        tabBar.dispose();
+      });
+
+      it('should wrap the focus around the ends of the tab bar', () => {
+        let tabBar = createTabBar(3);
+        triggerKeyEvent(tabBar.tabAt(0), 37);
+        expect(document.activeElement).to.be(tabBar.tabAt(2));
+        triggerKeyEvent(tabBar.tabAt(2), 39);
+        expect(document.activeElement).to.be(tabBar.tabAt(0));
+        tabBar.dispose();
+      });
+
+      it('should move the focus to the first and last tabs', () => {
+        let tabBar = createTabBar(3);
+        triggerKeyEvent(tabBar.tabAt(1), 35);
+        expect(document.activeElement).to.be(tabBar.tabAt(2));
+        triggerKeyEvent(tabBar.tabAt(2), 36);
+        expect(document.activeElement).to.be(tabBar.tabAt(0));
+        tabBar.dispose();
+      });
+
+      it('should activate the focused tab on `Enter` and `Space`', () => {
+        let tabBar = createTabBar(3);
+        tabBar.currentItem = tabBar.itemAt(0);
+        triggerKeyEvent(tabBar.tabAt(2), 13);
+        expect(tabBar.currentItem).to.be(tabBar.itemAt(2));
+        triggerKeyEvent(tabBar.tabAt(1), 32);
+        expect(tabBar.currentItem).to.be(tabBar.itemAt(1));
+        tabBar.dispose();
+      });
+
+      it('should activate the focused tab if `activateOnFocus` is set', () => {
+        let tabBar = createTabBar(3);
+        tabBar.activateOnFocus = true;
+        tabBar.currentItem = tabBar.itemAt(0);
+        triggerKeyEvent(tabBar.tabAt(0), 39);
+        expect(tabBar.currentItem).to.be(tabBar.itemAt(1));
+        tabBar.dispose();
+      });
+
+      it('should use the up and down keys for a vertical tab bar', () => {
+        let tabBar = createTabBar(3, 100, 500);
+        tabBar.orientation = Orientation.Vertical;
+        triggerKeyEvent(tabBar.tabAt(0), 39);
+        expect(document.activeElement).not.to.be(tabBar.tabAt(1));
+        triggerKeyEvent(tabBar.tabAt(0), 40);
+        expect(document.activeElement).to.be(tabBar.tabAt(1));
+        triggerKeyEvent(tabBar.tabAt(1), 38);
+        expect(document.activeElement).to.be(tabBar.tabAt(0));
+        tabBar.dispose();
+      });
+
+      it('should reverse the arrow keys from right to left', () => {
+        let tabBar = createTabBar(3);
+        tabBar.textDirection = TextDirection.RightToLeft;
+        triggerKeyEvent(tabBar.tabAt(0), 37);
+        expect(document.activeElement).to.be(tabBar.tabAt(1));
+        tabBar.dispose();
+      });
+
+      it('should ignore navigation keys with a modifier', () => {
+        let tabBar = createTabBar(3);
+        tabBar.tabAt(0).focus();
+        triggerKeyEvent(tabBar.tabAt(0), 39, { altKey: true });
+        expect(document.activeElement).to.be(tabBar.tabAt(0));
+        tabBar.dispose();
+      });
+
+    });
+
+    describe('accessibility', () => {
+
+      it('should give the content node the `tablist` role', () => {
+        let tabBar = new TabBar();
+        expect(tabBar.contentNode.getAttribute('role')).to.be('tablist');
+        tabBar.dispose();
+      });
+
+      it('should give each tab the `tab` role and a unique id', () => {
+        let tabBar = createTabBar(2);
+        let tab0 = tabBar.tabAt(0);
+        let tab1 = tabBar.tabAt(1);
+        expect(tab0.getAttribute('role')).to.be('tab');
+        expect(tab0.id).to.be.ok();
+        expect(tab1.id).to.be.ok();
+        expect(tab0.id).not.to.be(tab1.id);
+        tabBar.dispose();
+      });
+
+      it('should mark the current tab as selected', () => {
+        let tabBar = createTabBar(2);
+        tabBar.currentItem = tabBar.itemAt(1);
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tabBar.tabAt(0).getAttribute('aria-selected')).to.be('false');
+        expect(tabBar.tabAt(1).getAttribute('aria-selected')).to.be('true');
+        tabBar.dispose();
+      });
+
+      it('should hide the close icon of a tab which is not closable', () => {
+        let tabBar = createTabBar(2);
+        tabBar.itemAt(1).title.closable = true;
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        let close0 = tabBar.tabAt(0).querySelector('.p-TabBar-tabCloseIcon');
+        let close1 = tabBar.tabAt(1).querySelector('.p-TabBar-tabCloseIcon');
+        expect(close0.getAttribute('aria-hidden')).to.be('true');
+        expect(close1.getAttribute('aria-hidden')).to.be('false');
+        expect(close1.getAttribute('role')).to.be('button');
+        expect(close1.getAttribute('aria-label')).to.be('Close');
+        tabBar.dispose();
+      });
+
+    });
+
+    describe('keyboard reordering', () => {
+
+      it('should move a tab with `Ctrl+Shift+Arrow`', () => {
+        let tabBar = createTabBar(3);
+        tabBar.tabsMovable = true;
+        let args: ITabMovedArgs = null;
+        tabBar.tabMoved.connect((sender, value) => { args = value; });
+        let tab = tabBar.tabAt(0);
+        triggerKeyEvent(tab, 39, { ctrlKey: true, shiftKey: true });
+        expect(args.fromIndex).to.be(0);
+        expect(args.toIndex).to.be(1);
+        expect(args.item).to.be(tabBar.itemAt(1));
+        expect(itemTexts(tabBar)).to.eql(['1', '0', '2']);
+        expect(tabBar.tabAt(1)).to.be(tab);
+        expect(document.activeElement).to.be(tab);
+        triggerKeyEvent(tab, 37, { ctrlKey: true, shiftKey: true });
+        expect(itemTexts(tabBar)).to.eql(['0', '1', '2']);
+        tabBar.dispose();
+      });
+
+      it('should not move a tab past the ends of the tab bar', () => {
+        let tabBar = createTabBar(3);
+        tabBar.tabsMovable = true;
+        let called = false;
+        tabBar.tabMoved.connect(() => { called = true; });
+        triggerKeyEvent(tabBar.tabAt(0), 37, { ctrlKey: true, shiftKey: true });
+        triggerKeyEvent(tabBar.tabAt(2), 39, { ctrlKey: true, shiftKey: true });
+        expect(called).to.be(false);
+        expect(itemTexts(tabBar)).to.eql(['0', '1', '2']);
+        tabBar.dispose();
+      });
+
+      it('should not move a tab if the tabs are not movable', () => {
+        let tabBar = createTabBar(3);
+        triggerKeyEvent(tabBar.tabAt(0), 39, { ctrlKey: true, shiftKey: true });
+        expect(itemTexts(tabBar)).to.eql(['0', '1', '2']);
+        tabBar.dispose();
+      });
+
+      it('should move a tab along the vertical axis', () => {
+        let tabBar = createTabBar(3, 100, 500);
+        tabBar.orientation = Orientation.Vertical;
+        tabBar.tabsMovable = true;
+        triggerKeyEvent(tabBar.tabAt(0), 40, { ctrlKey: true, shiftKey: true });
+        expect(itemTexts(tabBar)).to.eql(['1', '0', '2']);
+        tabBar.dispose();
+      });
+
+    });
+
+    describe('keyboard closing', () => {
+
+      it('should request a close on `Delete` for a closable tab', () => {
+        let tabBar = createTabBar(3);
+        tabBar.itemAt(1).title.closable = true;
+        let args: ITabIndexArgs = null;
+        tabBar.tabCloseRequested.connect((sender, value) => { args = value; });
+        triggerKeyEvent(tabBar.tabAt(1), 46);
+        expect(args.index).to.be(1);
+        expect(args.item).to.be(tabBar.itemAt(1));
+        tabBar.dispose();
+      });
+
+      it('should request a close on `Ctrl+W` for a closable tab', () => {
+        let tabBar = createTabBar(3);
+        tabBar.itemAt(2).title.closable = true;
+        let args: ITabIndexArgs = null;
+        tabBar.tabCloseRequested.connect((sender, value) => { args = value; });
+        triggerKeyEvent(tabBar.tabAt(2), 87);
+        expect(args).to.be(null);
+        triggerKeyEvent(tabBar.tabAt(2), 87, { ctrlKey: true });
+        expect(args.index).to.be(2);
+        tabBar.dispose();
+      });
+
+      it('should not request a close for a tab which is not closable', () => {
+        let tabBar = createTabBar(3);
+        let called = false;
+        tabBar.tabCloseRequested.connect(() => { called = true; });
+        triggerKeyEvent(tabBar.tabAt(0), 46);
+        triggerKeyEvent(tabBar.tabAt(0), 87, { ctrlKey: true });
+        expect(called).to.be(false);
+        tabBar.dispose();
+      });
+
+    });
+
+    describe('#announceChanges', () => {
+
+      it('should default to `false`', () => {
+        let tabBar = new TabBar();
+        expect(tabBar.announceChanges).to.be(false);
+        expect(tabBar.node.querySelector('.p-TabBar-announcer')).to.be(null);
+        tabBar.dispose();
+      });
+
+      it('should add a polite live region to the tab bar', () => {
+        let tabBar = new TabBar();
+        tabBar.announceChanges = true;
+        let node = tabBar.node.querySelector('.p-TabBar-announcer');
+        expect(node.getAttribute('role')).to.be('status');
+        expect(node.getAttribute('aria-live')).to.be('polite');
+        tabBar.announceChanges = false;
+        expect(node.parentNode).to.be(null);
+        tabBar.dispose();
+      });
+
+      it('should announce a change of the current tab', () => {
+        let tabBar = createTabBar(3);
+        tabBar.announceChanges = true;
+        tabBar.currentItem = tabBar.itemAt(2);
+        let node = tabBar.node.querySelector('.p-TabBar-announcer');
+        expect(node.textContent).to.be('2 selected, tab 3 of 3');
+        tabBar.dispose();
+      });
+
+      it('should not overwrite the messages announced in the same tick', (done) => {
+        let tabBar = createTabBar(4);
+        tabBar.announceChanges = true;
+        tabBar.currentItem = tabBar.itemAt(1);
+        setTimeout(() => {
+          tabBar.removeItem(tabBar.itemAt(1));
+          let node = tabBar.node.querySelector('.p-TabBar-announcer') as HTMLElement;
+          expect(node.children.length).to.be(2);
+          expect(node.children[0].textContent).to.be('1 removed');
+          expect(node.children[1].textContent).to.be('2 selected, tab 2 of 3');
+          tabBar.dispose();
+          done();
+        }, 0);
+      });
+
+      it('should use the custom announcement templates', () => {
+        let tabBar = createTabBar(3);
+        tabBar.announceChanges = true;
+        tabBar.tabsMovable = true;
+        let announcements = tabBar.announcements;
+        announcements.moved = '{title}: {position}/{count}';
+        expect(tabBar.announcements.moved).not.to.be(announcements.moved);
+        tabBar.announcements = announcements;
+        triggerKeyEvent(tabBar.tabAt(0), 39, { ctrlKey: true, shiftKey: true });
+        let node = tabBar.node.querySelector('.p-TabBar-announcer');
+        expect(node.lastChild.textContent).to.be('0: 2/3');
+        tabBar.dispose();
+      });
+
+    });
+
+    describe('#activationHistory', () => {
+
+      it('should order the items from most to least recently current', () => {
+        let tabBar = createTabBar(4);
+        let items = [0, 1, 2, 3].map(i => tabBar.itemAt(i));
+        tabBar.currentItem = items[2];
+        tabBar.currentItem = items[1];
+        tabBar.currentItem = items[2];
+        expect(tabBar.activationHistory).to.eql([items[2], items[1], items[0]]);
+        tabBar.dispose();
+      });
+
+      it('should not include the removed items', () => {
+        let tabBar = createTabBar(3);
+        let items = [0, 1, 2].map(i => tabBar.itemAt(i));
+        tabBar.currentItem = items[1];
+        tabBar.removeItem(items[0]);
+        expect(tabBar.activationHistory).to.eql([items[1]]);
+        tabBar.dispose();
+      });
+
+    });
+
+    describe('#removalPolicy', () => {
+
+      it('should default to `RemovalPolicy.Next`', () => {
+        let tabBar = createTabBar(3);
+        expect(tabBar.removalPolicy).to.be(RemovalPolicy.Next);
+        tabBar.currentItem = tabBar.itemAt(1);
+        tabBar.removeItem(tabBar.itemAt(1));
+        expect(tabBar.currentItem.title.text).to.be('2');
+        tabBar.removeItem(tabBar.itemAt(1));
+        expect(tabBar.currentItem.title.text).to.be('0');
+        tabBar.dispose();
+      });
+
+      it('should select the previous tab for `RemovalPolicy.Previous`', () => {
+        let tabBar = createTabBar(3);
+        tabBar.removalPolicy = RemovalPolicy.Previous;
+        tabBar.currentItem = tabBar.itemAt(1);
+        tabBar.removeItem(tabBar.itemAt(1));
+        expect(tabBar.currentItem.title.text).to.be('0');
+        tabBar.removeItem(tabBar.itemAt(0));
+        expect(tabBar.currentItem.title.text).to.be('2');
+        tabBar.dispose();
+      });
+
+      it('should select the most recent tab for `RemovalPolicy.MostRecent`', () => {
+        let tabBar = createTabBar(4);
+        tabBar.removalPolicy = RemovalPolicy.MostRecent;
+        tabBar.currentItem = tabBar.itemAt(3);
+        tabBar.currentItem = tabBar.itemAt(1);
+        tabBar.removeItem(tabBar.itemAt(1));
+        expect(tabBar.currentItem.title.text).to.be('3');
+        tabBar.removeItem(tabBar.currentItem);
+        expect(tabBar.currentItem.title.text).to.be('0');
+        tabBar.dispose();
+      });
+
+      it('should fall back to the next tab without a history', () => {
+        let tabBar = createTabBar(3);
+        tabBar.removalPolicy = RemovalPolicy.MostRecent;
+        tabBar.removeItem(tabBar.itemAt(0));
+        expect(tabBar.currentItem.title.text).to.be('1');
+        tabBar.dispose();
+      });
+
+      it('should not select a tab for `RemovalPolicy.None`', () => {
+        let tabBar = createTabBar(3);
+        tabBar.removalPolicy = RemovalPolicy.None;
+        let args: ITabIndexArgs = null;
+        tabBar.currentChanged.connect((sender, value) => { args = value; });
+        tabBar.removeItem(tabBar.itemAt(0));
+        expect(tabBar.currentItem).to.be(null);
+        expect(args.index).to.be(-1);
+        expect(args.item).to.be(null);
+        tabBar.dispose();
+      });
+
+    });
+
+    describe('#multiSelectEnabled', () => {
+
+      it('should default to `false`', () => {
+        let tabBar = createTabBar(3);
+        expect(tabBar.multiSelectEnabled).to.be(false);
+        pressTab(tabBar, 1, { ctrlKey: true });
+        expect(tabBar.selectedItems).to.eql([]);
+        tabBar.selectedItems = [tabBar.itemAt(0)];
+        expect(tabBar.selectedItems).to.eql([]);
+        tabBar.dispose();
+      });
+
+      it('should toggle the selection of a tab on `Ctrl+Click`', () => {
+        let tabBar = createTabBar(3);
+        tabBar.multiSelectEnabled = true;
+        let args: ITabItem[][] = [];
+        tabBar.selectionChanged.connect((sender, items) => { args.push(items); });
+        pressTab(tabBar, 2, { ctrlKey: true });
+        pressTab(tabBar, 1, { ctrlKey: true });
+        expect(args.length).to.be(2);
+        expect(args[1]).to.eql([tabBar.itemAt(1), tabBar.itemAt(2)]);
+        expect(tabBar.currentItem).to.be(tabBar.itemAt(0));
+        pressTab(tabBar, 2, { ctrlKey: true });
+        expect(tabBar.selectedItems).to.eql([tabBar.itemAt(1)]);
+        tabBar.dispose();
+      });
+
+      it('should select a range of tabs on `Shift+Click`', () => {
+        let tabBar = createTabBar(4);
+        tabBar.multiSelectEnabled = true;
+        tabBar.currentItem = tabBar.itemAt(1);
+        pressTab(tabBar, 3, { shiftKey: true });
+        expect(tabBar.selectedItems).to.eql([1, 2, 3].map(i => tabBar.itemAt(i)));
+        pressTab(tabBar, 0, { shiftKey: true });
+        expect(tabBar.selectedItems).to.eql([0, 1].map(i => tabBar.itemAt(i)));
+        tabBar.dispose();
+      });
+
+      it('should clear the selection on a plain press', () => {
+        let tabBar = createTabBar(3);
+        tabBar.multiSelectEnabled = true;
+        tabBar.selectedItems = [tabBar.itemAt(0), tabBar.itemAt(2)];
+        pressTab(tabBar, 1);
+        releaseMouse();
+        expect(tabBar.selectedItems).to.eql([]);
+        expect(tabBar.currentItem).to.be(tabBar.itemAt(1));
+        tabBar.dispose();
+      });
+
+      it('should add the selected class to the selected tabs', () => {
+        let tabBar = createTabBar(3);
+        tabBar.multiSelectEnabled = true;
+        tabBar.selectedItems = [tabBar.itemAt(2)];
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tabBar.tabAt(2).classList.contains('p-mod-selected')).to.be(true);
+        expect(tabBar.tabAt(0).classList.contains('p-mod-selected')).to.be(false);
+        tabBar.multiSelectEnabled = false;
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tabBar.tabAt(2).classList.contains('p-mod-selected')).to.be(false);
+        tabBar.dispose();
+      });
+
+      it('should emit `selectionChanged` when a selected item is removed', () => {
+        let tabBar = createTabBar(3);
+        tabBar.multiSelectEnabled = true;
+        tabBar.selectedItems = [tabBar.itemAt(1), tabBar.itemAt(2)];
+        let args: ITabItem[] = null;
+        tabBar.selectionChanged.connect((sender, items) => { args = items; });
+        tabBar.removeItem(tabBar.itemAt(1));
+        expect(args).to.eql([tabBar.itemAt(1)]);
+        tabBar.dispose();
+      });
+
+    });
+
+    describe('#dragGroup', () => {
+
+      it('should default to an empty array', () => {
+        let tabBar = createTabBar(3);
+        expect(tabBar.dragGroup).to.eql([]);
+        tabBar.dragGroup = [tabBar.itemAt(2), tabBar.itemAt(0), createContent('x')];
+        expect(tabBar.dragGroup).to.eql([tabBar.itemAt(0), tabBar.itemAt(2)]);
+        tabBar.dispose();
+      });
+
+      it('should drag the group tabs as one block', () => {
+        let tabBar = createTabBar(4);
+        tabBar.tabsMovable = true;
+        tabBar.dragGroup = [tabBar.itemAt(0), tabBar.itemAt(2)];
+        dragTab(tabBar, 0, 300, 0);
+        expect(tabBar.tabAt(0).style.left).to.be('300px');
+        expect(tabBar.tabAt(2).style.left).to.be('175px');
+        expect(tabBar.tabAt(1).style.left).to.be('-125px');
+        expect(tabBar.tabAt(3).style.left).to.be('-250px');
+        expect(tabBar.tabAt(2).classList.contains('p-mod-dragging')).to.be(true);
+        releaseMouse();
+        tabBar.dispose();
+      });
+
+      it('should emit `groupMoved` when the group is dropped', (done) => {
+        let tabBar = createTabBar(4);
+        tabBar.tabsMovable = true;
+        tabBar.dragGroup = [tabBar.itemAt(0), tabBar.itemAt(2)];
+        let items = [0, 1, 2, 3].map(i => tabBar.itemAt(i));
+        let args: ITabMovedArgs[] = null;
+        let moves = 0;
+        tabBar.groupMoved.connect((sender, value) => { args = value; });
+        tabBar.tabMoved.connect(() => { moves++; });
+        dragTab(tabBar, 0, 300, 0);
+        releaseMouse();
+        setTimeout(() => {
+          expect(args.length).to.be(2);
+          expect(args[0]).to.eql({ fromIndex: 0, toIndex: 2, item: items[0] });
+          expect(args[1]).to.eql({ fromIndex: 2, toIndex: 3, item: items[2] });
+          expect(moves).to.be(2);
+          expect(itemTexts(tabBar)).to.eql(['1', '3', '0', '2']);
+          tabBar.dispose();
+          done();
+        }, 200);
+      });
+
+      it('should drag a single tab which is not in the group', (done) => {
+        let tabBar = createTabBar(4);
+        tabBar.tabsMovable = true;
+        tabBar.dragGroup = [tabBar.itemAt(0), tabBar.itemAt(2)];
+        let called = false;
+        tabBar.groupMoved.connect(() => { called = true; });
+        dragTab(tabBar, 1, 140, 0);
+        releaseMouse();
+        setTimeout(() => {
+          expect(called).to.be(false);
+          expect(itemTexts(tabBar)).to.eql(['0', '2', '1', '3']);
+          tabBar.dispose();
+          done();
+        }, 200);
+      });
+
+    });
+
+    describe('#currentAboutToChange', () => {
+
+      it('should be emitted before the current item changes', () => {
+        let tabBar = createTabBar(3);
+        let log: string[] = [];
+        let args: ICurrentAboutToChangeArgs = null;
+        tabBar.currentAboutToChange.connect((sender, value) => {
+          args = value;
+          log.push('currentAboutToChange');
+        });
+        tabBar.currentChanged.connect(() => { log.push('currentChanged'); });
+        tabBar.currentItem = tabBar.itemAt(2);
+        expect(log).to.eql(['currentAboutToChange', 'currentChanged']);
+        expect(args.fromIndex).to.be(0);
+        expect(args.fromItem).to.be(tabBar.itemAt(0));
+        expect(args.toIndex).to.be(2);
+        expect(args.toItem).to.be(tabBar.itemAt(2));
+        expect(args.cancel).to.be(false);
+        tabBar.dispose();
+      });
+
+      it('should veto the change if a handler sets `cancel`', () => {
+        let tabBar = createTabBar(3);
+        let called = false;
+        tabBar.currentAboutToChange.connect((sender, args) => { args.cancel = true; });
+        tabBar.currentChanged.connect(() => { called = true; });
+        tabBar.currentItem = tabBar.itemAt(2);
+        pressTab(tabBar, 1);
+        releaseMouse();
+        expect(tabBar.currentItem).to.be(tabBar.itemAt(0));
+        expect(called).to.be(false);
+        tabBar.dispose();
+      });
+
+      it('should not start a drag if the press is vetoed', () => {
+        let tabBar = createTabBar(3);
+        tabBar.tabsMovable = true;
+        let started = false;
+        tabBar.currentAboutToChange.connect((sender, args) => { args.cancel = true; });
+        tabBar.dragStarted.connect(() => { started = true; });
+        dragTab(tabBar, 1, 140, 0);
+        expect(tabBar.isDragging).to.be(false);
+        expect(started).to.be(false);
+        expect(tabBar.tabAt(1).style.left).to.be('');
+        releaseMouse();
+        expect(itemTexts(tabBar)).to.eql(['0', '1', '2']);
+        tabBar.dispose();
+      });
+
+      it('should not be emitted when the current item is removed', () => {
+        let tabBar = createTabBar(3);
+        let called = false;
+        tabBar.currentAboutToChange.connect((sender, args) => {
+          called = true;
+          args.cancel = true;
+        });
+        tabBar.removeItem(tabBar.itemAt(0));
+        expect(called).to.be(false);
+        expect(tabBar.currentItem).to.be(tabBar.itemAt(0));
+        tabBar.dispose();
+      });
+
+    });
+
+    describe('#setTabClosing()', () => {
+
+      it('should mark the tab of an item as closing', () => {
+        let tabBar = createTabBar(3);
+        tabBar.setTabClosing(tabBar.itemAt(1), true);
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        let tab = tabBar.tabAt(1);
+        expect(tab.classList.contains('p-mod-closing')).to.be(true);
+        expect(tab.getAttribute('aria-busy')).to.be('true');
+        tabBar.setTabClosing(tabBar.itemAt(1), false);
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tab.classList.contains('p-mod-closing')).to.be(false);
+        expect(tab.hasAttribute('aria-busy')).to.be(false);
+        tabBar.dispose();
+      });
+
+      it('should keep the mark when the title changes', () => {
+        let tabBar = createTabBar(3);
+        tabBar.setTabClosing(tabBar.itemAt(1), true);
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        tabBar.itemAt(1).title.text = 'changed';
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tabBar.tabAt(1).classList.contains('p-mod-closing')).to.be(true);
+        tabBar.dispose();
+      });
+
+      it('should ignore an item which is not in the tab bar', () => {
+        let tabBar = createTabBar(3);
+        let item = createContent('x');
+        tabBar.setTabClosing(item, true);
+        tabBar.addItem(item);
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tabBar.tabAt(3).classList.contains('p-mod-closing')).to.be(false);
+        tabBar.dispose();
+      });
+
+      it('should clear the mark when the item is removed', () => {
+        let tabBar = createTabBar(3);
+        let item = tabBar.itemAt(1);
+        tabBar.setTabClosing(item, true);
+        tabBar.removeItem(item);
+        tabBar.addItem(item);
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tabBar.tabAt(2).classList.contains('p-mod-closing')).to.be(false);
+        tabBar.dispose();
+      });
+
+    });
+
+    describe('#tabDoubleClicked', () => {
+
+      it('should be emitted when a tab is double clicked', () => {
+        let tabBar = createTabBar(3);
+        let args: ITabIndexArgs = null;
+        tabBar.tabDoubleClicked.connect((sender, value) => { args = value; });
+        triggerTabEvent(tabBar, 1, 'dblclick');
+        expect(args.index).to.be(1);
+        expect(args.item).to.be(tabBar.itemAt(1));
+        tabBar.dispose();
+      });
+
+      it('should not be emitted for a double click on a close icon', () => {
+        let tabBar = createTabBar(3);
+        let called = false;
+        tabBar.tabDoubleClicked.connect(() => { called = true; });
+        let icon = tabBar.tabAt(1).querySelector('.p-TabBar-tabCloseIcon') as HTMLElement;
+        let pos = tabCenter(tabBar, 1);
+        triggerMouseEvent(icon, 'dblclick', { clientX: pos.x, clientY: pos.y });
+        expect(called).to.be(false);
+        tabBar.dispose();
+      });
+
+    });
+
+    describe('#middleClickClose', () => {
+
+      it('should default to `true`', () => {
+        let tabBar = new TabBar();
+        expect(tabBar.middleClickClose).to.be(true);
+        tabBar.dispose();
+      });
+
+      it('should request a close on a middle click on a closable tab', () => {
+        let tabBar = createTabBar(3);
+        tabBar.itemAt(1).title.closable = true;
+        let args: ITabIndexArgs = null;
+        tabBar.tabCloseRequested.connect((sender, value) => { args = value; });
+        triggerTabEvent(tabBar, 0, 'auxclick', { button: 1 });
+        expect(args).to.be(null);
+        triggerTabEvent(tabBar, 1, 'auxclick', { button: 2 });
+        expect(args).to.be(null);
+        triggerTabEvent(tabBar, 1, 'auxclick', { button: 1 });
+        expect(args.index).to.be(1);
+        expect(args.item).to.be(tabBar.itemAt(1));
+        tabBar.dispose();
+      });
+
+      it('should not request a close if disabled', () => {
+        let tabBar = createTabBar(3);
+        tabBar.middleClickClose = false;
+        tabBar.itemAt(1).title.closable = true;
+        let called = false;
+        tabBar.tabCloseRequested.connect(() => { called = true; });
+        triggerTabEvent(tabBar, 1, 'auxclick', { button: 1 });
+        expect(called).to.be(false);
+        tabBar.dispose();
+      });
+
+    });
+
+    describe('#tabContextMenuRequested', () => {
+
+      it('should be emitted for a context menu request on a tab', () => {
+        let tabBar = createTabBar(3);
+        let args: ITabContextMenuArgs = null;
+        tabBar.tabContextMenuRequested.connect((sender, value) => { args = value; });
+        let pos = tabCenter(tabBar, 2);
+        let event = new MouseEvent('contextmenu', {
+          bubbles: true, cancelable: true, clientX: pos.x, clientY: pos.y
+        });
+        tabBar.tabAt(2).dispatchEvent(event);
+        expect(args.index).to.be(2);
+        expect(args.item).to.be(tabBar.itemAt(2));
+        expect(args.clientX).to.be(pos.x);
+        expect(args.clientY).to.be(pos.y);
+        expect(event.defaultPrevented).to.be(true);
+        tabBar.dispose();
+      });
+
+      it('should not be emitted for a request outside of the tabs', () => {
+        let tabBar = createTabBar(3);
+        let called = false;
+        tabBar.tabContextMenuRequested.connect(() => { called = true; });
+        triggerMouseEvent(tabBar.node, 'contextmenu', { clientX: 500, clientY: 20 });
+        expect(called).to.be(false);
+        tabBar.dispose();
+      });
+
+    });
+
+    describe('#tooltipFunc', () => {
+
+      it('should default to `null`', () => {
+        let tabBar = createTabBar(2);
+        expect(tabBar.tooltipFunc).to.be(null);
+        expect(tabBar.tabAt(0).hasAttribute('title')).to.be(false);
+        tabBar.dispose();
+      });
+
+      it('should use the title caption by default', () => {
+        let tabBar = createTabBar(2);
+        tabBar.itemAt(0).title.caption = 'Caption 0';
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tabBar.tabAt(0).title).to.be('Caption 0');
+        expect(tabBar.tabAt(1).hasAttribute('title')).to.be(false);
+        tabBar.itemAt(0).title.caption = '';
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tabBar.tabAt(0).hasAttribute('title')).to.be(false);
+        tabBar.dispose();
+      });
+
+      it('should override the title caption', () => {
+        let tabBar = createTabBar(2);
+        tabBar.itemAt(0).title.caption = 'Caption 0';
+        tabBar.tooltipFunc = item => `Tab ${item.title.text}`;
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tabBar.tabAt(0).title).to.be('Tab 0');
+        tabBar.dispose();
+      });
+
+      it('should compute the tooltip of each tab', () => {
+        let tabBar = createTabBar(2);
+        tabBar.tooltipFunc = item => `Tab ${item.title.text}`;
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tabBar.tabAt(0).title).to.be('Tab 0');
+        expect(tabBar.tabAt(1).title).to.be('Tab 1');
+        tabBar.addItem(createContent('2'));
+        expect(tabBar.tabAt(2).title).to.be('Tab 2');
+        tabBar.dispose();
+      });
+
+      it('should recompute the tooltip when the title changes', () => {
+        let tabBar = createTabBar(2);
+        tabBar.tooltipFunc = item => `Tab ${item.title.text}`;
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        tabBar.itemAt(1).title.text = 'changed';
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tabBar.tabAt(1).title).to.be('Tab changed');
+        tabBar.dispose();
+      });
+
+      it('should restore the caption tooltips when cleared', () => {
+        let tabBar = createTabBar(2);
+        tabBar.tooltipFunc = item => `Tab ${item.title.text}`;
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        tabBar.itemAt(1).title.caption = 'Caption 1';
+        tabBar.tooltipFunc = null;
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        expect(tabBar.tabAt(0).hasAttribute('title')).to.be(false);
+        expect(tabBar.tabAt(1).title).to.be('Caption 1');
+        tabBar.dispose();
+      });
+
+    });
+
+    describe('#hoverEnabled', () => {
+
+      it('should default to `false`', () => {
+        let tabBar = new TabBar();
+        expect(tabBar.hoverEnabled).to.be(false);
+        expect(tabBar.hoverDelay).to.be(500);
+        tabBar.dispose();
+      });
+
+      it('should emit `tabHovered` after the hover delay', (done) => {
+        let tabBar = createTabBar(3);
+        tabBar.hoverEnabled = true;
+        tabBar.hoverDelay = 0;
+        let args: ITabIndexArgs = null;
+        tabBar.tabHovered.connect((sender, value) => { args = value; });
+        triggerMouseEvent(tabBar.tabAt(1), 'mouseover');
+        expect(args).to.be(null);
+        setTimeout(() => {
+          expect(args.index).to.be(1);
+          expect(args.item).to.be(tabBar.itemAt(1));
+          tabBar.dispose();
+          done();
+        }, 20);
+      });
+
+      it('should end the hover when the mouse moves to another tab', (done) => {
+        let tabBar = createTabBar(3);
+        tabBar.hoverEnabled = true;
+        tabBar.hoverDelay = 0;
+        let log: string[] = [];
+        tabBar.tabHovered.connect((sender, args) => { log.push(`hovered ${args.index}`); });
+        tabBar.tabHoverEnded.connect((sender, args) => { log.push(`ended ${args.index}`); });
+        triggerMouseEvent(tabBar.tabAt(1), 'mouseover');
+        setTimeout(() => {
+          triggerMouseEvent(tabBar.tabAt(2), 'mouseover');
+          setTimeout(() => {
+            triggerMouseEvent(tabBar.node, 'mouseleave');
+            expect(log).to.eql(['hovered 1', 'ended 1', 'hovered 2', 'ended 2']);
+            tabBar.dispose();
+            done();
+          }, 20);
+        }, 20);
+      });
+
+      it('should not emit any signal if the mouse leaves before the delay', (done) => {
+        let tabBar = createTabBar(3);
+        tabBar.hoverEnabled = true;
+        tabBar.hoverDelay = 10;
+        let called = false;
+        tabBar.tabHovered.connect(() => { called = true; });
+        tabBar.tabHoverEnded.connect(() => { called = true; });
+        triggerMouseEvent(tabBar.tabAt(1), 'mouseover');
+        triggerMouseEvent(tabBar.node, 'mouseleave');
+        setTimeout(() => {
+          expect(called).to.be(false);
+          tabBar.dispose();
+          done();
+        }, 30);
+      });
+
+      it('should end the hover on a mouse press', (done) => {
+        let tabBar = createTabBar(3);
+        tabBar.hoverEnabled = true;
+        tabBar.hoverDelay = 0;
+        let ended: ITabIndexArgs = null;
+        tabBar.tabHoverEnded.connect((sender, args) => { ended = args; });
+        triggerMouseEvent(tabBar.tabAt(0), 'mouseover');
+        setTimeout(() => {
+          pressTab(tabBar, 0);
+          releaseMouse();
+          expect(ended.item).to.be(tabBar.itemAt(0));
+          tabBar.dispose();
+          done();
+        }, 20);
+      });
+
+    });
+
+    describe('item signals', () => {
+
+      it('should emit `itemInserted` before the item becomes current', () => {
+        let tabBar = new TabBar();
+        let item = createContent('0');
+        let log: string[] = [];
+        let args: ITabIndexArgs = null;
+        tabBar.itemInserted.connect((sender, value) => {
+          args = value;
+          log.push('itemInserted');
+        });
+        tabBar.currentChanged.connect(() => { log.push('currentChanged'); });
+        tabBar.addItem(item);
+        expect(log).to.eql(['itemInserted', 'currentChanged']);
+        expect(args.index).to.be(0);
+        expect(args.item).to.be(item);
+        tabBar.dispose();
+      });
+
+      it('should emit `itemRemoved` before a new item becomes current', () => {
+        let tabBar = createTabBar(3);
+        let item = tabBar.itemAt(0);
+        let log: string[] = [];
+        let args: ITabIndexArgs = null;
+        tabBar.itemRemoved.connect((sender, value) => {
+          args = value;
+          log.push('itemRemoved');
+        });
+        tabBar.currentChanged.connect(() => { log.push('currentChanged'); });
+        tabBar.removeItem(item);
+        expect(log).to.eql(['itemRemoved', 'currentChanged']);
+        expect(args.index).to.be(0);
+        expect(args.item).to.be(item);
+        tabBar.dispose();
+      });
+
+      it('should emit `itemMoved` for a move by `insertItem`', () => {
+        let tabBar = createTabBar(3);
+        let item = tabBar.itemAt(0);
+        let args: ITabMovedArgs = null;
+        let inserted = false;
+        tabBar.itemMoved.connect((sender, value) => { args = value; });
+        tabBar.itemInserted.connect(() => { inserted = true; });
+        tabBar.insertItem(2, item);
+        expect(args).to.eql({ fromIndex: 0, toIndex: 2, item });
+        expect(inserted).to.be(false);
+        tabBar.dispose();
+      });
+
+      it('should emit `itemMoved` after `tabMoved` for a user move', () => {
+        let tabBar = createTabBar(3);
+        tabBar.tabsMovable = true;
+        let log: string[] = [];
+        tabBar.tabMoved.connect(() => { log.push('tabMoved'); });
+        tabBar.itemMoved.connect(() => { log.push('itemMoved'); });
+        triggerKeyEvent(tabBar.tabAt(0), 39, { ctrlKey: true, shiftKey: true });
+        expect(log).to.eql(['tabMoved', 'itemMoved']);
+        tabBar.dispose();
+      });
+
+    });
+
+    describe('drag signals', () => {
+
+      it('should emit the drag signals in order', (done) => {
+        let tabBar = createTabBar(3);
+        tabBar.tabsMovable = true;
+        let log: string[] = [];
+        let item = tabBar.itemAt(0);
+        let ended: ITabIndexArgs = null;
+        tabBar.dragStarted.connect((sender, args) => {
+          log.push(`dragStarted ${args.index}`);
+        });
+        tabBar.dragMoved.connect((sender, args) => {
+          log.push(`dragMoved ${args.index} ${args.targetIndex}`);
+        });
+        tabBar.tabMoved.connect(() => { log.push('tabMoved'); });
+        tabBar.dragEnded.connect((sender, args) => {
+          ended = args;
+          log.push(`dragEnded ${args.index} ${args.targetIndex}`);
+        });
+        tabBar.dragCanceled.connect(() => { log.push('dragCanceled'); });
+        dragTab(tabBar, 0, 140, 0);
+        expect(tabBar.isDragging).to.be(true);
+        releaseMouse();
+        setTimeout(() => {
+          expect(log).to.eql([
+            'dragStarted 0', 'dragMoved 0 1', 'tabMoved', 'dragEnded 0 1'
+          ]);
+          expect(ended.item).to.be(item);
+          expect(tabBar.isDragging).to.be(false);
+          tabBar.dispose();
+          done();
+        }, 200);
+      });
+
+      it('should clear `isDragging` when the mouse is released', (done) => {
+        let tabBar = createTabBar(3);
+        tabBar.tabsMovable = true;
+        let dragging: boolean = null;
+        tabBar.dragEnded.connect(() => { dragging = tabBar.isDragging; });
+        dragTab(tabBar, 0, 140, 0);
+        releaseMouse();
+        expect(tabBar.isDragging).to.be(false);
+        expect(dragging).to.be(null);
+        setTimeout(() => {
+          expect(dragging).to.be(false);
+          expect(tabBar.isDragging).to.be(false);
+          tabBar.dispose();
+          done();
+        }, 200);
+      });
+
+      it('should not start a drag below the drag threshold', () => {
+        let tabBar = createTabBar(3);
+        tabBar.tabsMovable = true;
+        let called = false;
+        tabBar.dragStarted.connect(() => { called = true; });
+        dragTab(tabBar, 0, 2, 0);
+        expect(called).to.be(false);
+        expect(tabBar.isDragging).to.be(false);
+        releaseMouse();
+        tabBar.dispose();
+      });
+
+      it('should emit `dragCanceled` when `Escape` is pressed', (done) => {
+        let tabBar = createTabBar(3);
+        tabBar.tabsMovable = true;
+        let canceled: ITabIndexArgs = null;
+        let ended = false;
+        tabBar.dragCanceled.connect((sender, args) => { canceled = args; });
+        tabBar.dragEnded.connect(() => { ended = true; });
+        dragTab(tabBar, 0, 140, 0);
+        triggerKeyEvent(document.body, 27);
+        expect(canceled.index).to.be(0);
+        expect(canceled.item).to.be(tabBar.itemAt(0));
+        expect(tabBar.isDragging).to.be(false);
+        expect(tabBar.tabAt(0).style.left).to.be('');
+        releaseMouse();
+        setTimeout(() => {
+          expect(ended).to.be(false);
+          expect(itemTexts(tabBar)).to.eql(['0', '1', '2']);
+          tabBar.dispose();
+          done();
+        }, 200);
+      });
+
+      it('should emit `dragCanceled` when the mouse is released', () => {
+        let tabBar = createTabBar(3);
+        tabBar.tabsMovable = true;
+        let called = false;
+        tabBar.dragCanceled.connect(() => { called = true; });
+        dragTab(tabBar, 0, 140, 0);
+        tabBar.releaseMouse();
+        expect(called).to.be(true);
+        expect(tabBar.isDragging).to.be(false);
+        tabBar.dispose();
+      });
+
+    });
+
+    describe('#connectionGroup', () => {
+
+      function createConnectedBars(): TabBar[] {
+        let source = createTabBar(3);
+        let target = createTabBar(2);
+        target.node.style.top = '100px';
+        source.tabsMovable = true;
+        source.connectionGroup = 'group';
+        target.connectionGroup = 'group';
+        return [source, target];
+      }
+
+      it('should default to an empty string', () => {
+        let tabBar = new TabBar();
+        expect(tabBar.connectionGroup).to.be('');
+        tabBar.dispose();
+      });
+
+      it('should show an insertion gap in the target tab bar', () => {
+        let [source, target] = createConnectedBars();
+        dragTab(source, 0, 100, 90);
+        expect(target.hasClass('p-mod-dragging')).to.be(true);
+        expect(target.tabAt(0).style.left).to.be('');
+        expect(target.tabAt(1).style.left).to.be('125px');
+        expect(source.tabAt(1).style.left).to.be('');
+        triggerMouseEvent(document.body, 'mousemove', { clientX: 172, clientY: 300 });
+        expect(target.hasClass('p-mod-dragging')).to.be(false);
+        expect(target.tabAt(1).style.left).to.be('');
+        releaseMouse();
+        source.dispose();
+        target.dispose();
+      });
+
+      it('should shift the tabs of a single row with mixed heights', () => {
+        let [source, target] = createConnectedBars();
+        target.addItem(createContent('2'));
+        target.currentItem = target.itemAt(2);
+        target.contentNode.style.alignItems = 'flex-end';
+        target.tabAt(0).style.height = '20px';
+        target.tabAt(1).style.height = '20px';
+        target.tabAt(2).style.height = '23px';
+        sendMessage(target, Widget.MsgUpdateRequest);
+        dragTab(source, 0, 100, 90);
+        expect(target.tabAt(0).style.left).to.be('');
+        expect(target.tabAt(1).style.left).to.be('125px');
+        expect(target.tabAt(2).style.left).to.be('125px');
+        releaseMouse();
+        source.dispose();
+        target.dispose();
+      });
+
+      it('should size the gap along the axis of the target tab bar', () => {
+        let [source, target] = createConnectedBars();
+        let style = target.node.style;
+        style.left = '700px';
+        style.top = '10px';
+        style.width = '100px';
+        style.height = '500px';
+        target.orientation = Orientation.Vertical;
+        sendMessage(target, Widget.MsgUpdateRequest);
+        dragTab(source, 0, 677.5, 163);
+        expect(target.tabAt(1).style.top).to.be('24px');
+        expect(target.tabAt(1).style.left).to.be('');
+        releaseMouse();
+        source.dispose();
+        target.dispose();
+      });
+
+      it('should show a drag image while over the target tab bar', () => {
+        let [source, target] = createConnectedBars();
+        dragTab(source, 0, 100, 90);
+        let image = document.body.querySelector('.p-TabBar-dragImage') as HTMLElement;
+        expect(image).to.be.ok();
+        expect(image.parentNode).to.be(document.body);
+        expect(image.hasAttribute('id')).to.be(false);
+        expect(image.style.width).to.be('125px');
+        expect(source.tabAt(0).style.visibility).to.be('hidden');
+        releaseMouse();
+        expect(image.parentNode).to.be(null);
+        expect(document.body.querySelector('.p-TabBar-dragImage')).to.be(null);
+        source.dispose();
+        target.dispose();
+      });
+
+      it('should transfer a dropped tab to the target tab bar', () => {
+        let [source, target] = createConnectedBars();
+        let item = source.itemAt(0);
+        let dropped: ITabDropArgs = null;
+        let ended: ITabIndexArgs = null;
+        target.tabDropped.connect((sender, args) => { dropped = args; });
+        source.dragEnded.connect((sender, args) => { ended = args; });
+        dragTab(source, 0, 100, 90);
+        releaseMouse();
+        expect(dropped.source).to.be(source);
+        expect(dropped.fromIndex).to.be(0);
+        expect(dropped.toIndex).to.be(1);
+        expect(dropped.item).to.be(item);
+        expect(dropped.handled).to.be(false);
+        expect(dropped.cancel).to.be(false);
+        expect(ended.item).to.be(item);
+        expect(itemTexts(source)).to.eql(['1', '2']);
+        expect(itemTexts(target)).to.eql(['0', '0', '1']);
+        expect(target.itemAt(1)).to.be(item);
+        expect(target.currentItem).to.be(item);
+        expect(source.tabAt(0).style.visibility).to.be('');
+        source.dispose();
+        target.dispose();
+      });
+
+      it('should keep the item in the source if the drop is canceled', () => {
+        let [source, target] = createConnectedBars();
+        target.tabDropped.connect((sender, args) => { args.cancel = true; });
+        dragTab(source, 0, 100, 90);
+        releaseMouse();
+        expect(itemTexts(source)).to.eql(['0', '1', '2']);
+        expect(itemTexts(target)).to.eql(['0', '1']);
+        source.dispose();
+        target.dispose();
+      });
+
+      it('should not transfer the item if the drop is handled', () => {
+        let [source, target] = createConnectedBars();
+        target.tabDropped.connect((sender, args) => { args.handled = true; });
+        dragTab(source, 0, 100, 90);
+        releaseMouse();
+        expect(source.itemCount()).to.be(3);
+        expect(target.itemCount()).to.be(2);
+        source.dispose();
+        target.dispose();
+      });
+
+      it('should ignore a tab bar in another group', () => {
+        let [source, target] = createConnectedBars();
+        target.connectionGroup = 'other';
+        dragTab(source, 0, 100, 90);
+        expect(target.hasClass('p-mod-dragging')).to.be(false);
+        expect(document.body.querySelector('.p-TabBar-dragImage')).to.be(null);
+        releaseMouse();
+        source.dispose();
+        target.dispose();
+      });
+
+    });
+
+  });
+
   // describe('Tabbar', () => {
 
   //   describe('.createNode()', () => {
@@ -9,6 +9,126 @@
 
 import expect = require('expect.js');
 
+import {
+  BoxLayout
+} from 'phosphor-boxpanel';
+
+import {
+  sendMessage
+} from 'phosphor-messaging';
+
+import {
+  Widget
+} from 'phosphor-widget';
+
+import {
+  ITabDropArgs, ITabIndexArgs, ITabMovedArgs, IThenable, Orientation, TabBar,
+  TabPanel, TabPlacement
+} from '../../lib/index';
+
+import './index.css';
+
+
+function createContent(title: string): Widget {
+  let widget = new Widget();
+  widget.title.text = title;
+  return widget;
+}
+
+
+function addInput(widget: Widget): HTMLInputElement {
+  let input = document.createElement('input');
+  widget.node.appendChild(input);
+  return input;
+}
+
+
+function triggerMouseEvent(node: HTMLElement, eventType: string, options: any = {}) {
+  options.bubbles = true;
+  options.cancelable = true;
+  let mouseEvent = new MouseEvent(eventType, options);
+  node.dispatchEvent(mouseEvent);
+}
+
+
+function triggerKeyEvent(node: HTMLElement, eventType: string, keyCode: number, options: any = {}): void {
+  let event = document.createEvent('Event') as any;
+  event.initEvent(eventType, true, true);
+  event.keyCode = keyCode;
+  for (let key in options) {
+    event[key] = options[key];
+  }
+  node.dispatchEvent(event);
+}
+
+
+interface IDeferred {
+  thenable: IThenable<boolean>;
+  resolve: (value: boolean) => void;
+  reject: (error: any) => void;
+}
+
+
+function createDeferred(): IDeferred {
+  let deferred: any = {};
+  deferred.thenable = {
+    then: (onFulfilled: any, onRejected: any): any => {
+      deferred.resolve = onFulfilled;
+      deferred.reject = onRejected;
+      return null;
+    }
+  };
+  return deferred;
+}
+
+
+function requestClose(panel: TabPanel, index: number): void {
+  panel.childAt(index).title.closable = true;
+  triggerKeyEvent(panel.tabBar.tabAt(index), 'keydown', 46);
+}
+
+
+function requestContextMenu(panel: TabPanel, index: number): HTMLElement {
+  let rect = panel.tabBar.tabAt(index).getBoundingClientRect();
+  let clientX = rect.left + rect.width / 2;
+  let clientY = rect.top + rect.height / 2;
+  triggerMouseEvent(panel.tabBar.tabAt(index), 'contextmenu', { clientX, clientY });
+  return document.body.querySelector('.p-TabPanel-contextMenu') as HTMLElement;
+}
+
+
+function menuTexts(menu: HTMLElement): string[] {
+  return Array.prototype.map.call(menu.children, (node: HTMLElement) => node.textContent);
+}
+
+
+function dragTabTo(tabBar: TabBar, index: number, clientX: number, clientY: number): void {
+  let rect = tabBar.tabAt(index).getBoundingClientRect();
+  let x = rect.left + rect.width / 2;
+  let y = rect.top + rect.height / 2;
+  triggerMouseEvent(tabBar.tabAt(index), 'mousedown', { clientX: x, clientY: y });
+  triggerMouseEvent(document.body, 'mousemove', { clientX, clientY });
+  triggerMouseEvent(document.body, 'mouseup', { clientX, clientY });
+}
+
+
+function createTabPanel(count: number): TabPanel {
+  let panel = new TabPanel();
+  for (let i = 0; i < count; ++i) {
+    panel.addChild(createContent(`${i}`));
+  }
+  let style = panel.node.style;
+  style.position = 'absolute';
+  style.left = '10px';
+  style.top = '10px';
+  style.width = '600px';
+  style.height = '400px';
+  panel.attach(document.body);
+  sendMessage(panel.tabBar, Widget.MsgUpdateRequest);
+  return panel;
+}
+
+
 // import {
 //   Message
 // } from 'phosphor-messaging';
@@ -104,6 +224,531 @@ describe('phosphor-tabs', () => {
 
   });
 
+  describe('TabPanel', () => {
+
+    describe('#tabPlacement', () => {
+
+      it('should default to `TabPlacement.Top`', () => {
+        let panel = new TabPanel();
+        expect(panel.tabPlacement).to.be(TabPlacement.Top);
+        expect(panel.hasClass('p-mod-top')).to.be(true);
+        expect((panel.layout as BoxLayout).childAt(0)).to.be(panel.tabBar);
+        panel.dispose();
+      });
+
+      it('should place the tab bar after the content for the bottom placement', () => {
+        let panel = new TabPanel();
+        panel.tabPlacement = TabPanel.Bottom;
+        let layout = panel.layout as BoxLayout;
+        expect(panel.hasClass('p-mod-bottom')).to.be(true);
+        expect(panel.hasClass('p-mod-top')).to.be(false);
+        expect(layout.direction).to.be(BoxLayout.TopToBottom);
+        expect(layout.childAt(1)).to.be(panel.tabBar);
+        expect(panel.tabBar.orientation).to.be(Orientation.Horizontal);
+        panel.dispose();
+      });
+
+      it('should use a vertical tab bar for the side placements', () => {
+        let panel = new TabPanel();
+        let layout = panel.layout as BoxLayout;
+        panel.tabPlacement = TabPanel.Left;
+        expect(panel.hasClass('p-mod-left')).to.be(true);
+        expect(layout.direction).to.be(BoxLayout.LeftToRight);
+        expect(layout.childAt(0)).to.be(panel.tabBar);
+        expect(panel.tabBar.orientation).to.be(Orientation.Vertical);
+        panel.tabPlacement = TabPanel.Right;
+        expect(panel.hasClass('p-mod-right')).to.be(true);
+        expect(panel.hasClass('p-mod-left')).to.be(false);
+        expect(layout.childAt(1)).to.be(panel.tabBar);
+        expect(panel.tabBar.orientation).to.be(Orientation.Vertical);
+        panel.dispose();
+      });
+
+    });
+
+    describe('accessibility', () => {
+
+      it('should link each tab to its child widget', () => {
+        let panel = createTabPanel(2);
+        let widget = panel.childAt(1);
+        let tab = panel.tabBar.tabAt(1);
+        expect(widget.id).to.be.ok();
+        expect(tab.getAttribute('aria-controls')).to.be(widget.id);
+        expect(widget.node.getAttribute('role')).to.be('tabpanel');
+        expect(widget.node.getAttribute('aria-labelledby')).to.be(tab.id);
+        panel.dispose();
+      });
+
+      it('should keep an existing widget id', () => {
+        let panel = createTabPanel(0);
+        let widget = createContent('0');
+        widget.id = 'my-widget';
+        panel.addChild(widget);
+        expect(widget.id).to.be('my-widget');
+        expect(panel.tabBar.tabAt(0).getAttribute('aria-controls')).to.be('my-widget');
+        panel.dispose();
+      });
+
+      it('should remove the attributes of a removed widget', () => {
+        let panel = createTabPanel(2);
+        let widget = panel.childAt(0);
+        widget.parent = null;
+        expect(widget.node.hasAttribute('role')).to.be(false);
+        expect(widget.node.hasAttribute('aria-labelledby')).to.be(false);
+        expect(panel.tabBar.itemCount()).to.be(1);
+        widget.dispose();
+        panel.dispose();
+      });
+
+    });
+
+    describe('#restoreFocus', () => {
+
+      it('should default to `true`', () => {
+        let panel = new TabPanel();
+        expect(panel.restoreFocus).to.be(true);
+        panel.dispose();
+      });
+
+      it('should restore the last focused element of the new widget', () => {
+        let panel = createTabPanel(2);
+        let input0 = addInput(panel.childAt(0));
+        let input1 = addInput(panel.childAt(1));
+        input0.focus();
+        panel.currentWidget = panel.childAt(1);
+        input1.focus();
+        panel.currentWidget = panel.childAt(0);
+        expect(document.activeElement).to.be(input0);
+        panel.currentWidget = panel.childAt(1);
+        expect(document.activeElement).to.be(input1);
+        panel.dispose();
+      });
+
+      it('should focus a focusable widget node or else its tab', () => {
+        let panel = createTabPanel(3);
+        let input = addInput(panel.childAt(0));
+        panel.childAt(1).node.tabIndex = -1;
+        input.focus();
+        panel.currentWidget = panel.childAt(1);
+        expect(document.activeElement).to.be(panel.childAt(1).node);
+        panel.currentWidget = panel.childAt(2);
+        expect(document.activeElement).to.be(panel.tabBar.tabAt(2));
+        panel.dispose();
+      });
+
+      it('should not move the focus if the focus is outside the widgets', () => {
+        let panel = createTabPanel(2);
+        addInput(panel.childAt(1)).focus();
+        panel.currentWidget = panel.childAt(1);
+        let outside = document.createElement('input');
+        document.body.appendChild(outside);
+        outside.focus();
+        panel.currentWidget = panel.childAt(0);
+        expect(document.activeElement).to.be(outside);
+        document.body.removeChild(outside);
+        panel.dispose();
+      });
+
+      it('should not move the focus if disabled', () => {
+        let panel = createTabPanel(2);
+        let input = addInput(panel.childAt(0));
+        panel.restoreFocus = false;
+        input.focus();
+        panel.currentWidget = panel.childAt(1);
+        expect(document.activeElement).to.be(input);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#switcherEnabled', () => {
+
+      function switcherTexts(panel: TabPanel): string[] {
+        let texts = panel.node.querySelectorAll('.p-TabPanel-switcherItemText');
+        return Array.prototype.map.call(texts, (node: HTMLElement) => node.textContent);
+      }
+
+      function highlighted(panel: TabPanel): string {
+        let node = panel.node.querySelector('.p-TabPanel-switcherItem.p-mod-current');
+        return node.textContent;
+      }
+
+      it('should default to `false`', () => {
+        let panel = createTabPanel(2);
+        expect(panel.switcherEnabled).to.be(false);
+        triggerKeyEvent(panel.node, 'keydown', 9, { ctrlKey: true });
+        expect(panel.node.querySelector('.p-TabPanel-switcher')).to.be(null);
+        panel.dispose();
+      });
+
+      it('should list the widgets in most recently used order', () => {
+        let panel = createTabPanel(3);
+        panel.switcherEnabled = true;
+        panel.currentWidget = panel.childAt(2);
+        panel.currentWidget = panel.childAt(1);
+        triggerKeyEvent(panel.node, 'keydown', 9, { ctrlKey: true });
+        expect(switcherTexts(panel)).to.eql(['1', '2', '0']);
+        expect(highlighted(panel)).to.be('2');
+        triggerKeyEvent(panel.node, 'keyup', 17);
+        expect(panel.node.querySelector('.p-TabPanel-switcher')).to.be(null);
+        expect(panel.currentWidget).to.be(panel.childAt(2));
+        panel.dispose();
+      });
+
+      it('should move the highlight with `Tab` and `Shift+Tab`', () => {
+        let panel = createTabPanel(3);
+        panel.switcherEnabled = true;
+        triggerKeyEvent(panel.node, 'keydown', 9, { ctrlKey: true });
+        expect(highlighted(panel)).to.be('1');
+        triggerKeyEvent(panel.node, 'keydown', 9, { ctrlKey: true });
+        expect(highlighted(panel)).to.be('2');
+        triggerKeyEvent(panel.node, 'keydown', 9, { ctrlKey: true });
+        expect(highlighted(panel)).to.be('0');
+        triggerKeyEvent(panel.node, 'keydown', 9, { ctrlKey: true, shiftKey: true });
+        expect(highlighted(panel)).to.be('2');
+        triggerKeyEvent(panel.node, 'keyup', 17);
+        expect(panel.currentWidget).to.be(panel.childAt(2));
+        panel.dispose();
+      });
+
+      it('should highlight the last widget on `Ctrl+Shift+Tab`', () => {
+        let panel = createTabPanel(3);
+        panel.switcherEnabled = true;
+        triggerKeyEvent(panel.node, 'keydown', 9, { ctrlKey: true, shiftKey: true });
+        expect(highlighted(panel)).to.be('2');
+        triggerKeyEvent(panel.node, 'keydown', 27);
+        panel.dispose();
+      });
+
+      it('should close without a change on `Escape`', () => {
+        let panel = createTabPanel(3);
+        panel.switcherEnabled = true;
+        triggerKeyEvent(panel.node, 'keydown', 9, { ctrlKey: true });
+        triggerKeyEvent(panel.node, 'keydown', 27);
+        expect(panel.node.querySelector('.p-TabPanel-switcher')).to.be(null);
+        triggerKeyEvent(panel.node, 'keyup', 17);
+        expect(panel.currentWidget).to.be(panel.childAt(0));
+        panel.dispose();
+      });
+
+      it('should select a clicked widget', () => {
+        let panel = createTabPanel(3);
+        panel.switcherEnabled = true;
+        triggerKeyEvent(panel.node, 'keydown', 9, { ctrlKey: true });
+        let items = panel.node.querySelectorAll('.p-TabPanel-switcherItem');
+        triggerMouseEvent(items[2] as HTMLElement, 'click');
+        expect(panel.currentWidget).to.be(panel.childAt(2));
+        panel.dispose();
+      });
+
+    });
+
+    describe('#closeGuard', () => {
+
+      it('should default to `null`', () => {
+        let panel = createTabPanel(2);
+        expect(panel.closeGuard).to.be(null);
+        let widget = panel.childAt(1);
+        requestClose(panel, 1);
+        expect(widget.parent).to.be(null);
+        expect(panel.childCount()).to.be(1);
+        widget.dispose();
+        panel.dispose();
+      });
+
+      it('should veto the close if the guard returns `false`', () => {
+        let panel = createTabPanel(2);
+        let widgets: Widget[] = [];
+        panel.closeGuard = widget => {
+          widgets.push(widget);
+          return false;
+        };
+        requestClose(panel, 1);
+        expect(widgets).to.eql([panel.childAt(1)]);
+        expect(panel.childCount()).to.be(2);
+        panel.dispose();
+      });
+
+      it('should allow the close for any other synchronous result', () => {
+        let panel = createTabPanel(3);
+        panel.closeGuard = widget => widget.title.text === '1' ? true : undefined;
+        requestClose(panel, 2);
+        requestClose(panel, 1);
+        expect(panel.childCount()).to.be(1);
+        panel.dispose();
+      });
+
+      it('should mark the tab as closing while a thenable is pending', () => {
+        let panel = createTabPanel(2);
+        let deferred = createDeferred();
+        let calls = 0;
+        panel.closeGuard = () => {
+          calls++;
+          return deferred.thenable;
+        };
+        requestClose(panel, 1);
+        requestClose(panel, 1);
+        sendMessage(panel.tabBar, Widget.MsgUpdateRequest);
+        let tab = panel.tabBar.tabAt(1);
+        expect(calls).to.be(1);
+        expect(tab.classList.contains('p-mod-closing')).to.be(true);
+        expect(panel.childCount()).to.be(2);
+        deferred.resolve(true);
+        expect(panel.childCount()).to.be(1);
+        panel.dispose();
+      });
+
+      it('should clear the closing state if the thenable resolves to `false`', () => {
+        let panel = createTabPanel(2);
+        let deferred = createDeferred();
+        panel.closeGuard = () => deferred.thenable;
+        requestClose(panel, 1);
+        deferred.resolve(false);
+        sendMessage(panel.tabBar, Widget.MsgUpdateRequest);
+        expect(panel.childCount()).to.be(2);
+        expect(panel.tabBar.tabAt(1).classList.contains('p-mod-closing')).to.be(false);
+        panel.dispose();
+      });
+
+      it('should clear the closing state if the thenable is rejected', () => {
+        let panel = createTabPanel(2);
+        let deferred = createDeferred();
+        let calls = 0;
+        panel.closeGuard = () => {
+          calls++;
+          return deferred.thenable;
+        };
+        requestClose(panel, 1);
+        deferred.reject(new Error('failed'));
+        sendMessage(panel.tabBar, Widget.MsgUpdateRequest);
+        expect(panel.childCount()).to.be(2);
+        expect(panel.tabBar.tabAt(1).hasAttribute('aria-busy')).to.be(false);
+        requestClose(panel, 1);
+        expect(calls).to.be(2);
+        panel.dispose();
+      });
+
+      it('should treat a thenable which throws as a rejection', () => {
+        let panel = createTabPanel(2);
+        panel.closeGuard = () => ({ then: (): any => { throw new Error('failed'); } });
+        requestClose(panel, 1);
+        sendMessage(panel.tabBar, Widget.MsgUpdateRequest);
+        expect(panel.childCount()).to.be(2);
+        expect(panel.tabBar.tabAt(1).classList.contains('p-mod-closing')).to.be(false);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#contextMenuEnabled', () => {
+
+      it('should default to `false`', () => {
+        let panel = createTabPanel(3);
+        expect(panel.contextMenuEnabled).to.be(false);
+        expect(requestContextMenu(panel, 0)).to.be(null);
+        panel.dispose();
+      });
+
+      it('should show the close commands for a tab', () => {
+        let panel = createTabPanel(3);
+        panel.contextMenuEnabled = true;
+        panel.childAt(0).title.closable = true;
+        panel.childAt(1).title.closable = true;
+        let menu = requestContextMenu(panel, 1);
+        let items = menu.children;
+        expect(menuTexts(menu)).to.eql(['Close', 'Close Others', 'Close to the Right', 'Close All']);
+        expect(items[0].classList.contains('p-mod-disabled')).to.be(false);
+        expect(items[1].classList.contains('p-mod-disabled')).to.be(false);
+        expect(items[2].getAttribute('aria-disabled')).to.be('true');
+        triggerKeyEvent(document.body, 'keydown', 27);
+        expect(menu.parentNode).to.be(null);
+        panel.dispose();
+      });
+
+      it('should close the closable target widgets of a command', () => {
+        let panel = createTabPanel(4);
+        panel.contextMenuEnabled = true;
+        panel.childAt(0).title.closable = true;
+        panel.childAt(2).title.closable = true;
+        panel.childAt(3).title.closable = true;
+        let menu = requestContextMenu(panel, 1);
+        triggerMouseEvent(menu.children[2] as HTMLElement, 'click');
+        expect(menu.parentNode).to.be(null);
+        expect(panel.childCount()).to.be(2);
+        expect(panel.childAt(0).title.text).to.be('0');
+        expect(panel.childAt(1).title.text).to.be('1');
+        panel.dispose();
+      });
+
+      it('should ignore a click on a disabled command', () => {
+        let panel = createTabPanel(2);
+        panel.contextMenuEnabled = true;
+        let menu = requestContextMenu(panel, 0);
+        triggerMouseEvent(menu.children[3] as HTMLElement, 'click');
+        expect(menu.parentNode).to.be(document.body);
+        expect(panel.childCount()).to.be(2);
+        triggerMouseEvent(document.body, 'mousedown');
+        expect(menu.parentNode).to.be(null);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#contextMenuLabels', () => {
+
+      it('should return a copy of the labels', () => {
+        let panel = new TabPanel();
+        let labels = panel.contextMenuLabels;
+        labels.close = 'Schliessen';
+        expect(panel.contextMenuLabels.close).to.be('Close');
+        panel.dispose();
+      });
+
+      it('should be used for the context menu commands', () => {
+        let panel = createTabPanel(2);
+        panel.contextMenuEnabled = true;
+        panel.contextMenuLabels = {
+          close: 'Schliessen',
+          closeOthers: 'Andere schliessen',
+          closeToRight: 'Rechts schliessen',
+          closeAll: 'Alle schliessen'
+        };
+        let menu = requestContextMenu(panel, 0);
+        expect(menuTexts(menu)).to.eql([
+          'Schliessen', 'Andere schliessen', 'Rechts schliessen', 'Alle schliessen'
+        ]);
+        triggerKeyEvent(document.body, 'keydown', 27);
+        panel.dispose();
+      });
+
+    });
+
+    describe('widget signals', () => {
+
+      it('should emit `widgetInserted` when a child is added', () => {
+        let panel = createTabPanel(1);
+        let widget = createContent('1');
+        let args: ITabIndexArgs = null;
+        panel.widgetInserted.connect((sender, value) => { args = value; });
+        panel.addChild(widget);
+        expect(args.index).to.be(1);
+        expect(args.item).to.be(widget);
+        panel.dispose();
+      });
+
+      it('should emit `widgetRemoved` when a child is removed', () => {
+        let panel = createTabPanel(2);
+        let widget = panel.childAt(0);
+        let args: ITabIndexArgs = null;
+        panel.widgetRemoved.connect((sender, value) => { args = value; });
+        widget.parent = null;
+        expect(args.index).to.be(0);
+        expect(args.item).to.be(widget);
+        widget.dispose();
+        panel.dispose();
+      });
+
+      it('should emit `widgetMoved` when a child is moved', () => {
+        let panel = createTabPanel(3);
+        let widget = panel.childAt(0);
+        let args: ITabMovedArgs = null;
+        panel.widgetMoved.connect((sender, value) => { args = value; });
+        panel.insertChild(2, widget);
+        expect(args).to.eql({ fromIndex: 0, toIndex: 2, item: widget });
+        expect(panel.childAt(2)).to.be(widget);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#connectionGroup', () => {
+
+      function createConnectedPanels(): TabPanel[] {
+        let source = createTabPanel(3);
+        let target = createTabPanel(2);
+        target.node.style.top = '450px';
+        source.tabsMovable = true;
+        source.connectionGroup = 'group';
+        target.connectionGroup = 'group';
+        return [source, target];
+      }
+
+      function createPlainTabBar(): TabBar {
+        let tabBar = new TabBar();
+        tabBar.connectionGroup = 'group';
+        let style = tabBar.node.style;
+        style.position = 'absolute';
+        style.left = '700px';
+        style.top = '10px';
+        style.width = '300px';
+        style.height = '24px';
+        tabBar.attach(document.body);
+        return tabBar;
+      }
+
+      it('should forward to the tab bar', () => {
+        let panel = new TabPanel();
+        expect(panel.connectionGroup).to.be('');
+        panel.connectionGroup = 'group';
+        expect(panel.tabBar.connectionGroup).to.be('group');
+        panel.dispose();
+      });
+
+      it('should transfer a widget dropped from another tab panel', () => {
+        let [source, target] = createConnectedPanels();
+        let widget = source.childAt(0);
+        dragTabTo(source.tabBar, 0, 172, 462);
+        expect(source.childCount()).to.be(2);
+        expect(source.tabBar.itemCount()).to.be(2);
+        expect(target.childCount()).to.be(3);
+        expect(target.childAt(1)).to.be(widget);
+        expect(target.tabBar.itemAt(1)).to.be(widget);
+        expect(target.currentWidget).to.be(widget);
+        expect(widget.isVisible).to.be(true);
+        source.dispose();
+        target.dispose();
+      });
+
+      it('should reject a tab dropped from a plain tab bar', () => {
+        let [source, target] = createConnectedPanels();
+        let tabBar = createPlainTabBar();
+        tabBar.addItem(createContent('x'));
+        tabBar.tabsMovable = true;
+        sendMessage(tabBar, Widget.MsgUpdateRequest);
+        let dropped: ITabDropArgs = null;
+        target.tabBar.tabDropped.connect((sender, args) => { dropped = args; });
+        dragTabTo(tabBar, 0, 172, 462);
+        expect(dropped.cancel).to.be(true);
+        expect(dropped.handled).to.be(false);
+        expect(tabBar.itemCount()).to.be(1);
+        expect(target.childCount()).to.be(2);
+        expect(target.tabBar.itemCount()).to.be(2);
+        tabBar.dispose();
+        source.dispose();
+        target.dispose();
+      });
+
+      it('should release a widget dropped on a plain tab bar', () => {
+        let [source, target] = createConnectedPanels();
+        let tabBar = createPlainTabBar();
+        let widget = source.childAt(0);
+        let removed: ITabIndexArgs = null;
+        source.widgetRemoved.connect((sender, args) => { removed = args; });
+        dragTabTo(source.tabBar, 0, 772, 22);
+        expect(tabBar.itemAt(0)).to.be(widget);
+        expect(widget.parent).to.be(null);
+        expect(source.childCount()).to.be(2);
+        expect(removed.item).to.be(widget);
+        tabBar.dispose();
+        widget.dispose();
+        source.dispose();
+        target.dispose();
+      });
+
+    });
+
+  });
+
   // describe('TabPanel', () => {
 
   //   describe('.createTabBar()', () => {